@@ -12,67 +12,290 @@ import {
 	ItemView,
 	normalizePath,
 	Modal,
+	FuzzySuggestModal,
+	Keymap,
 	MarkdownView,
+	ViewStateResult,
+	Component,
+	MarkdownRenderer,
 	setIcon,
+	renderMatches,
+	getAllTags,
+	getLinkpath,
+	getFrontMatterInfo,
+	parseYaml,
+	stringifyYaml,
 } from "obsidian";
-import { BaseFileCreator } from "./src/create-base";
+import { BaseFileCreator, BaseFileOptions, BaseViewType } from "./src/create-base";
+import {
+	DEFAULT_INDEX_TEMPLATE,
+	DEFAULT_ITEM_FORMAT,
+	IndexOutputStyle,
+	IndexTemplateContext,
+	IndexTemplateItem,
+	IndexTemplateSection,
+	formatLink,
+	renderIndexTemplate,
+	renderManagedRegion,
+} from "./src/index-template";
+import { IndexUpdateQueue } from "./src/index-update-queue";
+import { FileFilter, globToRegExp, parseRuleList } from "./src/file-filter";
+import { computeFolderStats, FOLDER_STATS_KEYS } from "./src/folder-stats";
+import { FocusMode, FocusStyle, isInFocus } from "./src/focus-mode";
+import { ExplorerIntegration } from "./src/explorer-integration";
+import {
+	flattenScenes,
+	LongformCheckResult,
+	LongformScene,
+	mergeScenes,
+	nestScenes,
+	resolveSceneFolder,
+	toSceneFolder,
+} from "./src/longform";
+import { isEmptyQuery, parseSearchQuery, SearchResult, searchFiles } from "./src/search";
+import {
+	collectPropertyKeys,
+	comparePropertyValues,
+	getPropertyValue,
+	groupByProperty,
+	isEmptyValue,
+} from "./src/properties";
+import {
+	getManagedRegion,
+	hasManagedRegion,
+	migrateLegacyIndex,
+	replaceManagedRegion,
+} from "./src/managed-region";
+
+type ZenSpaceViewMode = "list" | "grid";
+type ZenSpaceSortBy = "filename" | "created" | "modified" | "custom" | "property";
+
+interface SavedSpace {
+	name: string;
+	/** Root folders; the first one that exists opens when switching to the space. */
+	folders: string[];
+	includePatterns: string[];
+	excludePatterns: string[];
+	sortBy: ZenSpaceSortBy;
+	sortOrder: "asc" | "desc";
+	pinnedItems: string[];
+	/** Files reopened in editor tabs when switching to the space. */
+	tabs: string[];
+}
 
 interface ZenSpaceSettings {
 	createIndexFile: boolean;
 	createBaseFile: boolean;
+	baseColumns: string[];
+	baseViews: BaseViewType[];
+	baseIncludeSubfolders: boolean;
+	baseTags: string[];
+	baseFileOpenMode: "never" | "tab" | "dedicated-tab" | "split" | "embed";
 	useLongformTemplate: boolean;
+	longformWorkflow: string;
+	longformSceneFolder: string;
 	includeSubfolders: boolean;
 	includeCanvasFiles: boolean;
 	includeOtherFormats: boolean;
+	includePatterns: string[];
+	excludePatterns: string[];
+	includeExtensions: string[];
+	excludeExtensions: string[];
 	hideFileExtensions: boolean;
 	hideFileIcons: boolean;
-	defaultSortBy: "filename" | "created" | "modified";
+	defaultSortBy: ZenSpaceSortBy;
 	defaultSortOrder: "asc" | "desc";
+	defaultSortProperty: string;
+	groupByProperty: string;
 	showSearchBar: boolean;
 	showQuickActions: boolean;
 	showBreadcrumbs: boolean;
+	showPinnedSection: boolean;
+	focusMode: boolean;
+	focusModeStyle: FocusStyle;
+	focusScopeSearch: boolean;
+	explorerButton: boolean;
+	explorerIndexBadge: boolean;
+	explorerNoteCount: boolean;
 	pinnedItems: string[]; 
 	useGridLayoutForIndex: boolean; 
+	indexFolderStats: boolean;
+	indexSummaryBlock: boolean;
+	indexOutputStyle: IndexOutputStyle;
+	indexIncludeCanvas: boolean;
+	indexIncludeAttachments: boolean;
+	indexLinkStyle: "shortest" | "full-path";
 	colorfulGridCards: boolean; 
 	simpleGridStyle: boolean; 
+	indexTemplatePath: string;
+	indexItemFormat: string;
+	indexFileName: "folder-name" | "index" | "_index" | "readme" | "custom";
+	indexFileCustomPattern: string;
+	indexFileLocation: "inside" | "sibling";
+	folderViewModes: Record<string, ZenSpaceViewMode>;
+	folderSettings: Record<string, FolderSettingsOverride>;
+	customOrder: Record<string, string[]>;
+	/** Top-level filters last written to each folder's base file, see `GeneratedFilterStore`. */
+	baseFileFilters: Record<string, string[]>;
+	savedSpaces: SavedSpace[];
 }
 
+const FOLDER_SETTING_KEYS = [
+	"defaultSortBy",
+	"defaultSortOrder",
+	"defaultSortProperty",
+	"groupByProperty",
+	"includeSubfolders",
+	"includeCanvasFiles",
+	"includeOtherFormats",
+	"includePatterns",
+	"excludePatterns",
+	"includeExtensions",
+	"excludeExtensions",
+	"hideFileExtensions",
+	"createIndexFile",
+	"useLongformTemplate",
+	"longformWorkflow",
+	"longformSceneFolder",
+	"useGridLayoutForIndex",
+	"indexFolderStats",
+	"indexSummaryBlock",
+	"indexOutputStyle",
+	"indexIncludeCanvas",
+	"indexIncludeAttachments",
+	"baseColumns",
+] as const;
+
+type FolderSettingKey = typeof FOLDER_SETTING_KEYS[number];
+type FolderSettingsOverride = Partial<Pick<ZenSpaceSettings, FolderSettingKey>>;
+
 const DEFAULT_SETTINGS: ZenSpaceSettings = {
 	createIndexFile: true,
 	createBaseFile: true,
+	baseColumns: ["file.name", "tags", "created", "updated"],
+	baseViews: ["table"],
+	baseIncludeSubfolders: false,
+	baseTags: [],
+	baseFileOpenMode: "tab",
 	useLongformTemplate: true,
+	longformWorkflow: "Default Workflow",
+	longformSceneFolder: "/",
 	includeSubfolders: true,
 	includeCanvasFiles: true,
 	includeOtherFormats: true,
+	includePatterns: [],
+	excludePatterns: [],
+	includeExtensions: [],
+	excludeExtensions: [],
 	hideFileExtensions: false,
 	hideFileIcons: true,
 	defaultSortBy: "filename",
 	defaultSortOrder: "asc",
+	defaultSortProperty: "",
+	groupByProperty: "",
 	showSearchBar: true,
 	showQuickActions: true,
 	showBreadcrumbs: true,
+	showPinnedSection: true,
+	focusMode: false,
+	focusModeStyle: "hide",
+	focusScopeSearch: false,
+	explorerButton: true,
+	explorerIndexBadge: true,
+	explorerNoteCount: false,
 	pinnedItems: [],
 	useGridLayoutForIndex: true, 
+	indexFolderStats: false,
+	indexSummaryBlock: false,
+	indexOutputStyle: "list",
+	indexIncludeCanvas: false,
+	indexIncludeAttachments: false,
+	indexLinkStyle: "shortest",
 	colorfulGridCards: true, 
 	simpleGridStyle: false, 
+	indexTemplatePath: "",
+	indexItemFormat: DEFAULT_ITEM_FORMAT,
+	indexFileName: "folder-name",
+	indexFileCustomPattern: "{{folderName}}",
+	indexFileLocation: "inside",
+	folderViewModes: {},
+	folderSettings: {},
+	customOrder: {},
+	baseFileFilters: {},
+	savedSpaces: [],
 };
 
 
 const ZEN_SPACE_VIEW_TYPE = "zen-space-view";
+const INDEX_STYLE_NAMES: Record<IndexOutputStyle, string> = {
+	list: "Bullet list",
+	tree: "Nested outline",
+	table: "Table",
+	cards: "Cards with images",
+	embed: "Bases or Dataview embed",
+	callouts: "Callout sections",
+};
+const ZEN_SPACE_DRAG_TYPE = "application/x-zen-space-paths";
+// List rows and grid cards alike, for keyboard focus and selection
+const ROW_SELECTOR = "[role='treeitem'][data-path]";
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "svg", "bmp", "avif"];
+
+interface ZenSpaceViewState {
+	folder: string;
+	space: string | null;
+	sortBy: ZenSpaceSortBy;
+	sortOrder: "asc" | "desc";
+	sortProperty: string;
+	groupBy: string;
+	collapsedGroups: string[];
+	searchTerm: string;
+	expandedFolders: string[];
+	history: string[];
+	historyIndex: number;
+}
+
+interface OpenInZenSpaceOptions {
+	leaf?: WorkspaceLeaf;
+	newLeaf?: boolean;
+	space?: SavedSpace;
+	/** Stays in the space the view is in, instead of opening a plain folder. */
+	keepSpace?: boolean;
+}
+
+interface ObsidianDragManager {
+	draggable: { type: string; file?: TAbstractFile; files?: TAbstractFile[] } | null;
+	dragFile(evt: DragEvent, file: TFile): unknown;
+	dragFolder(evt: DragEvent, folder: TFolder): unknown;
+	onDragStart(evt: DragEvent, dragData: unknown): void;
+}
 
 class ZenSpaceView extends ItemView {
 	folder: TFolder;
 	public contentEl: HTMLElement;
 	private fileListContainer: HTMLElement;
 	private plugin: ZenSpacePlugin;
-	public currentSortBy: "filename" | "created" | "modified";
+	public currentSortBy: ZenSpaceSortBy;
 	public currentSortOrder: "asc" | "desc";
+	public currentSortProperty = "";
+	public currentGroupBy = "";
+	private collapsedGroups: Set<string> = new Set();
 	private searchTerm = "";
+	private searchTimer: number | null = null;
+	private searchToken = 0;
 	private expandedFolders: Set<string> = new Set(); 
 	private folderHistory: TFolder[] = [];
 	private historyIndex: number = -1;
 	private backButton: HTMLButtonElement | null = null;
 	private forwardButton: HTMLButtonElement | null = null;
+	private selectedPaths: Set<string> = new Set();
+	private selectionAnchor: string | null = null;
+	private focusedPath: string | null = null;
+	private visibleItems: TAbstractFile[] = [];
+	private sortFolderPath: string | null = null;
+	private draggedPaths: string[] = [];
+	private baseEmbed: Component | null = null;
+	private pinnedCollapsed = false;
+	public spaceName: string | null = null;
 
 	constructor(leaf: WorkspaceLeaf, folder: TFolder, plugin: ZenSpacePlugin) {
 		super(leaf);
@@ -90,7 +313,12 @@ class ZenSpaceView extends ItemView {
 	}
 
 	getDisplayText(): string {
-		return `Zen Space ${this.folder.name}`;
+		const space = this.getSpace();
+		return space ? `${space.name}: ${this.folder.name}` : `Zen Space ${this.folder.name}`;
+	}
+
+	getSpace(): SavedSpace | null {
+		return this.plugin.getSavedSpace(this.spaceName);
 	}
 
 	getIcon(): string {
@@ -112,6 +340,75 @@ class ZenSpaceView extends ItemView {
 
 	onload(): void {
 		super.onload();
+		this.registerDomEvent(this.containerEl, "keydown", (e) => this.handleKeyDown(e));
+		this.registerFileEvents();
+	}
+
+	getState(): Record<string, unknown> {
+		const state: ZenSpaceViewState = {
+			folder: this.folder.path,
+			space: this.spaceName,
+			sortBy: this.currentSortBy,
+			sortOrder: this.currentSortOrder,
+			sortProperty: this.currentSortProperty,
+			groupBy: this.currentGroupBy,
+			collapsedGroups: Array.from(this.collapsedGroups),
+			searchTerm: this.searchTerm,
+			expandedFolders: Array.from(this.expandedFolders),
+			history: this.folderHistory.map((folder) => folder.path),
+			historyIndex: this.historyIndex,
+		};
+		return { ...super.getState(), ...state };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const viewState = (state ?? {}) as Partial<ZenSpaceViewState>;
+		const resolveFolder = (path: string) => {
+			const folder = this.app.vault.getAbstractFileByPath(path);
+			return folder instanceof TFolder ? folder : null;
+		};
+
+		// Opening a plain folder leaves the space, navigating within it leaves `space` out
+		if ("space" in viewState) {
+			this.spaceName = typeof viewState.space === "string" ? viewState.space : null;
+		}
+		if (viewState.sortBy) this.currentSortBy = viewState.sortBy;
+		if (viewState.sortOrder) this.currentSortOrder = viewState.sortOrder;
+		if (typeof viewState.sortProperty === "string") this.currentSortProperty = viewState.sortProperty;
+		if (typeof viewState.groupBy === "string") this.currentGroupBy = viewState.groupBy;
+		if (Array.isArray(viewState.collapsedGroups)) {
+			this.collapsedGroups = new Set(viewState.collapsedGroups);
+		}
+		if (typeof viewState.searchTerm === "string") this.searchTerm = viewState.searchTerm;
+		if (Array.isArray(viewState.expandedFolders)) {
+			this.expandedFolders = new Set(viewState.expandedFolders);
+		}
+
+		if (Array.isArray(viewState.history) && viewState.history.length > 0) {
+			const history = viewState.history
+				.map(resolveFolder)
+				.filter((folder): folder is TFolder => folder !== null);
+			if (history.length > 0) {
+				this.folderHistory = history;
+				this.historyIndex = Math.min(
+					Math.max(viewState.historyIndex ?? history.length - 1, 0),
+					history.length - 1
+				);
+				this.folder = history[this.historyIndex];
+			}
+		}
+
+		if (typeof viewState.folder === "string") {
+			this.folder = resolveFolder(viewState.folder) ?? this.app.vault.getRoot();
+		}
+
+		// A restored sort wins over the folder's default
+		if (viewState.sortBy || viewState.sortOrder) {
+			this.sortFolderPath = this.folder.path;
+		}
+
+		await super.setState(state, result);
+		await this.onOpen();
 	}
 
 	async onOpen(): Promise<void> {
@@ -126,6 +423,10 @@ class ZenSpaceView extends ItemView {
 			this.historyIndex = this.folderHistory.length - 1;
 		}
 
+		if (this.sortFolderPath !== this.folder.path) {
+			this.applyFolderSort();
+		}
+
 		this.contentEl = this.containerEl.querySelector(
 			".view-content"
 		) as HTMLElement;
@@ -178,20 +479,55 @@ class ZenSpaceView extends ItemView {
 				{ by: "modified", order: "asc", label: "Modified time (old to new)" },
 				{ by: "created", order: "desc", label: "Created time (new to old)" },
 				{ by: "created", order: "asc", label: "Created time (old to new)" },
+				{ by: "custom", order: "asc", label: "Custom order (drag to arrange)" },
 			];
-			options.forEach(opt => {
+			const addMenuItem = (label: string, isActive: boolean, onClick: () => void) => {
 				const item = document.createElement("div");
-				item.className = "zen-space-sort-menu-item" + (this.currentSortBy === opt.by && this.currentSortOrder === opt.order ? " is-active" : "");
-				item.textContent = opt.label;
+				item.className = "zen-space-sort-menu-item" + (isActive ? " is-active" : "");
+				item.textContent = label;
 				item.addEventListener("click", () => {
-					this.currentSortBy = opt.by as any;
-					this.currentSortOrder = opt.order as any;
+					onClick();
 					this.refreshView();
 					if (sortMenu) sortMenu.remove();
 					sortMenu = null;
 				});
 				if (sortMenu) sortMenu.appendChild(item);
+			};
+			const addMenuHeading = (text: string) => {
+				sortMenu?.createEl("div", { cls: "zen-space-sort-menu-heading", text });
+			};
+
+			options.forEach(opt => {
+				addMenuItem(opt.label, this.currentSortBy === opt.by && this.currentSortOrder === opt.order, () => {
+					this.currentSortBy = opt.by as any;
+					this.currentSortOrder = opt.order as any;
+				});
 			});
+
+			const propertyKeys = collectPropertyKeys(this.app, this.getSearchableFiles());
+			if (propertyKeys.length > 0) {
+				addMenuHeading("Sort by property");
+				propertyKeys.forEach(key => {
+					const isActive = this.currentSortBy === "property" && this.currentSortProperty === key;
+					const direction = isActive ? (this.currentSortOrder === "asc" ? " ↑" : " ↓") : "";
+					addMenuItem(key + direction, isActive, () => {
+						// Picking the active property again flips the direction
+						this.currentSortOrder = isActive && this.currentSortOrder === "asc" ? "desc" : "asc";
+						this.currentSortBy = "property";
+						this.currentSortProperty = key;
+					});
+				});
+
+				addMenuHeading("Group by");
+				addMenuItem("No grouping", !this.currentGroupBy, () => {
+					this.currentGroupBy = "";
+				});
+				propertyKeys.forEach(key => {
+					addMenuItem(key, this.currentGroupBy === key, () => {
+						this.currentGroupBy = key;
+					});
+				});
+			}
 			document.body.appendChild(sortMenu);
 			
 			const closeMenu = (ev: MouseEvent) => {
@@ -206,6 +542,19 @@ class ZenSpaceView extends ItemView {
 		});
 
 		
+		const isGrid = this.getViewMode() === "grid";
+		const viewModeButton = controlsContainer.createEl("button", {
+			cls: "zen-space-view-mode-button",
+			attr: { "aria-label": isGrid ? "Show as list" : "Show as cards" },
+		});
+		const viewModeIcon = viewModeButton.createEl('span', { cls: 'zen-space-icon' });
+		setIcon(viewModeIcon, isGrid ? 'list' : 'layout-grid');
+
+		viewModeButton.addEventListener("click", async () => {
+			await this.toggleViewMode();
+		});
+
+		
 		const newFolderButton = controlsContainer.createEl("button", {
 			cls: "zen-space-new-folder-button",
 			attr: {
@@ -256,11 +605,7 @@ class ZenSpaceView extends ItemView {
 		setIcon(this.backButton, "arrow-left");
 		this.backButton.disabled = this.historyIndex <= 0;
 		this.backButton.addEventListener("click", () => {
-			if (this.historyIndex > 0) {
-				this.historyIndex--;
-				this.folder = this.folderHistory[this.historyIndex];
-				this.refreshView(true);
-			}
+			this.goBack();
 		});
 
 		this.forwardButton = controlsContainer.createEl("button", {
@@ -270,11 +615,7 @@ class ZenSpaceView extends ItemView {
 		setIcon(this.forwardButton, "arrow-right");
 		this.forwardButton.disabled = this.historyIndex >= this.folderHistory.length - 1;
 		this.forwardButton.addEventListener("click", () => {
-			if (this.historyIndex < this.folderHistory.length - 1) {
-				this.historyIndex++;
-				this.folder = this.folderHistory[this.historyIndex];
-				this.refreshView(true);
-			}
+			this.goForward();
 		});
 
 		
@@ -286,17 +627,37 @@ class ZenSpaceView extends ItemView {
 			const searchInput = searchContainer.createEl("input", {
 				cls: "zen-space-search-input",
 				attr: {
-					placeholder: "Search files...",
+					placeholder: "Search files... (tag: ext: path: modified:>7d key:value)",
 					type: "text",
 				},
 			});
+			searchInput.value = this.searchTerm;
 
 			const searchIcon = searchContainer.createEl('span', { cls: 'zen-space-search-icon' });
 			setIcon(searchIcon, 'search');
 
 			searchInput.addEventListener("input", (e) => {
-				this.searchTerm = (e.target as HTMLInputElement).value.toLowerCase();
-				this.refreshView();
+				this.searchTerm = (e.target as HTMLInputElement).value;
+				if (this.searchTimer !== null) {
+					window.clearTimeout(this.searchTimer);
+				}
+				this.searchTimer = window.setTimeout(() => {
+					this.searchTimer = null;
+					this.refreshView();
+				}, 200);
+			});
+
+			searchInput.addEventListener("keydown", (e) => {
+				if (e.key === "Escape" && this.searchTerm) {
+					e.preventDefault();
+					searchInput.value = "";
+					this.searchTerm = "";
+					this.refreshView();
+				} else if (e.key === "ArrowDown") {
+					e.preventDefault();
+					const first = this.visibleItems[0];
+					if (first) this.focusRow(first.path);
+				}
 			});
 		}
 
@@ -304,15 +665,65 @@ class ZenSpaceView extends ItemView {
 		this.fileListContainer = this.contentEl.createEl("div", {
 			cls: "zen-space-file-list",
 		});
+		this.registerDropTarget(this.fileListContainer, this.folder);
+		this.fileListContainer.setAttr("role", "tree");
+		this.fileListContainer.setAttr("aria-multiselectable", "true");
+		this.fileListContainer.setAttr("aria-label", this.folder.isRoot() ? "Vault" : this.folder.name);
 
 		
-		this.displayFolderContents(this.folder, this.fileListContainer, true);
-
-		
-		this.registerFileEvents();
+		this.renderFileList(false);
+		this.renderBaseEmbed();
+		this.plugin.updateFocusMode();
 
 		
 		this.updateNavButtons();
+		this.app.workspace.requestSaveLayout();
+	}
+
+	
+	renderBaseEmbed() {
+		if (this.baseEmbed) {
+			this.removeChild(this.baseEmbed);
+			this.baseEmbed = null;
+		}
+		this.contentEl?.querySelector(".zen-space-base-embed")?.remove();
+		if (this.plugin.settings.baseFileOpenMode !== "embed") return;
+
+		const baseFile = this.plugin.getBaseFile(this.folder);
+		if (!baseFile) return;
+
+		const embedEl = this.contentEl.createEl("div", { cls: "zen-space-base-embed" });
+		this.baseEmbed = this.addChild(new Component());
+		MarkdownRenderer.render(this.app, `![[${baseFile.path}]]`, embedEl, baseFile.path, this.baseEmbed);
+	}
+
+	applyFolderSort() {
+		const settings = this.plugin.getFolderSettings(this.folder);
+		// Within a space, its saved sort applies to every folder it shows
+		const space = this.getSpace();
+		this.currentSortBy = space?.sortBy ?? settings.defaultSortBy;
+		this.currentSortOrder = space?.sortOrder ?? settings.defaultSortOrder;
+		this.currentSortProperty = settings.defaultSortProperty;
+		this.currentGroupBy = settings.groupByProperty;
+		this.sortFolderPath = this.folder.path;
+	}
+
+	goBack() {
+		if (this.historyIndex > 0) {
+			this.historyIndex--;
+			this.folder = this.folderHistory[this.historyIndex];
+			this.applyFolderSort();
+			this.refreshView(true);
+		}
+	}
+
+	goForward() {
+		if (this.historyIndex < this.folderHistory.length - 1) {
+			this.historyIndex++;
+			this.folder = this.folderHistory[this.historyIndex];
+			this.applyFolderSort();
+			this.refreshView(true);
+		}
 	}
 
 	updateNavButtons() {
@@ -350,6 +761,7 @@ class ZenSpaceView extends ItemView {
 		rootItem.addEventListener("click", () => {
 			this.navigateToFolder(root);
 		});
+		this.registerDropTarget(rootItem, root);
 
 		
 		if (path.length > 0) {
@@ -369,6 +781,7 @@ class ZenSpaceView extends ItemView {
 			item.addEventListener("click", () => {
 				this.navigateToFolder(folder);
 			});
+			this.registerDropTarget(item, folder);
 
 			
 			if (index < path.length - 1) {
@@ -382,26 +795,18 @@ class ZenSpaceView extends ItemView {
 
 	
 	isItemPinned(path: string): boolean {
-		return this.plugin.settings.pinnedItems.includes(path);
+		return this.plugin.getPinnedItems(this.spaceName).includes(path);
 	}
 
 	
 	async togglePinItem(path: string) {
-		const pinnedItems = this.plugin.settings.pinnedItems;
+		const pinnedItems = this.plugin.getPinnedItems(this.spaceName);
 		const isPinned = pinnedItems.includes(path);
 
-		if (isPinned) {
-			
-			this.plugin.settings.pinnedItems = pinnedItems.filter(
-				(item) => item !== path
-			);
-		} else {
-			
-			this.plugin.settings.pinnedItems.push(path);
-		}
-
-		
-		await this.plugin.saveSettings();
+		await this.plugin.setPinnedItems(
+			this.spaceName,
+			isPinned ? pinnedItems.filter((item) => item !== path) : [...pinnedItems, path]
+		);
 
 		
 		this.refreshView();
@@ -474,11 +879,6 @@ class ZenSpaceView extends ItemView {
 			const newFile = await this.app.vault.create(newFilePath, "");
 
 			
-			if (this.plugin.settings.createIndexFile) {
-				await this.plugin.updateIndexFileContent(this.folder);
-			}
-
-			
 			const leaf = this.app.workspace.getLeaf();
 			await leaf.openFile(newFile);
 
@@ -510,11 +910,6 @@ class ZenSpaceView extends ItemView {
 			const newFile = await this.app.vault.create(newFilePath, "");
 
 			
-			if (this.plugin.settings.createIndexFile) {
-				await this.plugin.updateIndexFileContent(folder);
-			}
-
-			
 			const leaf = this.app.workspace.getLeaf();
 			await leaf.openFile(newFile);
 
@@ -593,159 +988,557 @@ class ZenSpaceView extends ItemView {
 		}
 
 		if (this.fileListContainer) {
-			this.fileListContainer.empty();
-			this.displayFolderContents(
-				this.folder,
-				this.fileListContainer,
-				true
-			);
+			const hadFocus = this.fileListContainer.contains(document.activeElement);
+			this.renderFileList(hadFocus);
+			this.app.workspace.requestSaveLayout();
 		}
 	}
 
 	
-	getFileTime(file: TFile, type: "created" | "modified"): number {
-		if (type === "created") {
-			return file.stat.ctime;
-		} else {
-			return file.stat.mtime;
+	renderFileList(restoreFocus: boolean) {
+		this.fileListContainer.empty();
+
+		if (this.searchTerm.trim()) {
+			this.renderSearchResults(this.fileListContainer, restoreFocus).catch((error) => {
+				console.error("Error searching files:", error);
+			});
+			return;
 		}
-	}
 
-	
-	formatDisplayName(file: TAbstractFile): string {
-		if (file instanceof TFolder) {
-			return file.name;
+		this.renderSpaceRoots(this.fileListContainer);
+		if (this.plugin.settings.showPinnedSection) {
+			this.renderPinnedSection(this.fileListContainer);
 		}
 
-		if (this.plugin.settings.hideFileExtensions && file instanceof TFile) {
-			return file.name.slice(0, -(file.extension.length + 1));
+		if (this.getViewMode() === "grid") {
+			this.renderCardGrid(this.fileListContainer);
+			this.updateRovingFocus(restoreFocus);
+			return;
 		}
 
-		return file.name;
+		this.displayFolderContents(
+			this.folder,
+			this.fileListContainer,
+			true
+		);
+		this.updateRovingFocus(restoreFocus);
 	}
 
-	
-	shouldIncludeFile(file: TAbstractFile): boolean {
-		if (file instanceof TFolder) {
-			return this.plugin.settings.includeSubfolders;
+	renderSpaceRoots(container: HTMLElement) {
+		const space = this.getSpace();
+		const roots = (space?.folders ?? [])
+			.map((path) => this.app.vault.getAbstractFileByPath(path))
+			.filter((folder): folder is TFolder => folder instanceof TFolder);
+		if (roots.length < 2) {
+			return;
 		}
 
-		
-		if (file instanceof TFile) {
-			
-			if (file.extension === "canvas") {
-				return this.plugin.settings.includeCanvasFiles;
+		const bar = container.createEl("div", { cls: "zen-space-space-roots" });
+		for (const root of roots) {
+			const isActive = this.folder === root || this.folder.path.startsWith(root.path + "/");
+			const chip = bar.createEl("button", {
+				cls: "zen-space-space-root" + (isActive ? " is-active" : ""),
+				text: root.isRoot() ? "/" : root.name,
+				attr: { "aria-label": root.path },
+			});
+			chip.addEventListener("click", () => this.navigateToFolder(root));
+		}
+	}
+
+	// Pins can live anywhere in the vault, so they get their own section above the folder contents
+	renderPinnedSection(container: HTMLElement) {
+		const pinned = this.plugin.getPinnedItems(this.spaceName)
+			.map((path) => this.app.vault.getAbstractFileByPath(path))
+			.filter((item): item is TAbstractFile => item !== null);
+		if (pinned.length === 0) {
+			return;
+		}
+
+		const section = container.createEl("div", { cls: "zen-space-pinned-section" });
+		const header = section.createEl("div", {
+			cls: "zen-space-group-header",
+			attr: { role: "button", "aria-expanded": String(!this.pinnedCollapsed) },
+		});
+		setIcon(header.createEl("span", { cls: "zen-space-icon" }), this.pinnedCollapsed ? "chevron-right" : "chevron-down");
+		header.createEl("span", { text: "Pinned" });
+		header.createEl("span", { cls: "zen-space-group-count", text: String(pinned.length) });
+		header.addEventListener("click", () => {
+			this.pinnedCollapsed = !this.pinnedCollapsed;
+			this.refreshView();
+		});
+
+		if (this.pinnedCollapsed) {
+			return;
+		}
+
+		for (const item of pinned) {
+			const row = section.createEl("div", {
+				cls: "zen-space-file-item zen-space-pinned-entry zen-space-depth-0",
+			});
+			// Not `data-path`, so the entry is never mistaken for the item's row in the folder tree
+			row.dataset.pinnedPath = item.path;
+			if (!this.plugin.settings.hideFileIcons) {
+				setIcon(row.createEl("span", { cls: "zen-space-icon" }), item instanceof TFolder ? "folder" : "pin");
 			}
 
-			
-			if (file.extension === "md") {
-				return true;
+			const nameContainer = row.createEl("div", { cls: "zen-space-name-container" });
+			nameContainer.createEl("span", {
+				text: this.formatDisplayName(item),
+				cls: "zen-space-item-name zen-space-file-name",
+			});
+			if (item.parent && !item.parent.isRoot()) {
+				nameContainer.createEl("span", { text: item.parent.path, cls: "zen-space-pinned-path" });
 			}
 
-			
-			return this.plugin.settings.includeOtherFormats;
+			row.addEventListener("click", () => {
+				if (item instanceof TFolder) {
+					this.navigateToFolder(item);
+				} else if (item instanceof TFile) {
+					this.app.workspace.getLeaf().openFile(item);
+				}
+			});
+			row.addEventListener("contextmenu", (e) => {
+				e.preventDefault();
+				if (item instanceof TFolder) {
+					this.showFolderContextMenu(item, e);
+				} else if (item instanceof TFile) {
+					this.showFileContextMenu(item, e);
+				}
+			});
 		}
+	}
 
-		return false;
+	getViewMode(): ZenSpaceViewMode {
+		return this.plugin.settings.folderViewModes[this.folder.path] ?? "list";
 	}
 
 	
-	matchesSearch(file: TAbstractFile): boolean {
-		if (!this.searchTerm) return true;
-
-		return file.name.toLowerCase().includes(this.searchTerm);
+	async toggleViewMode() {
+		if (this.getViewMode() === "grid") {
+			delete this.plugin.settings.folderViewModes[this.folder.path];
+		} else {
+			this.plugin.settings.folderViewModes[this.folder.path] = "grid";
+		}
+		await this.plugin.saveSettings();
+		this.refreshView(true);
 	}
 
 	
-	showFolderContextMenu(folder: TFolder, event: MouseEvent) {
-		const menu = new Menu();
+	renderCardGrid(container: HTMLElement) {
+		this.visibleItems = [];
+		const children = this.folder.children.filter((child) => this.shouldIncludeFile(child));
+		const items = [
+			...this.sortFiles(children.filter((child) => child instanceof TFolder)),
+			...this.sortFiles(children.filter((child) => child instanceof TFile)),
+		];
+
+		if (items.length === 0) {
+			container.createEl("div", {
+				cls: "zen-space-empty-message",
+				text: "No files in this folder",
+			});
+			return;
+		}
 
-		
-		menu.addItem((item) => {
-			item.setTitle("Open in Zen Space")
-				.setIcon("target")
-				.onClick(async () => {
-					this.navigateToFolder(folder);
-				});
-		});
+		const grid = container.createEl("div", { cls: "zen-space-card-grid" });
+		for (const item of items) {
+			this.renderCard(grid, item);
+		}
+	}
 
-		
-		const isPinned = this.isItemPinned(folder.path);
-		menu.addItem((item) => {
-			item.setTitle(isPinned ? "Unpin folder" : "Pin folder")
-				.setIcon(isPinned ? "pin-off" : "pin")
-				.onClick(async () => {
-					await this.togglePinItem(folder.path);
-				});
+	
+	renderCard(grid: HTMLElement, item: TAbstractFile) {
+		const card = grid.createEl("div", { cls: "zen-space-card" });
+		card.dataset.path = item.path;
+		card.tabIndex = -1;
+		card.setAttr("role", "treeitem");
+		card.setAttr("aria-level", "1");
+		card.setAttr("aria-selected", String(this.selectedPaths.has(item.path)));
+		card.toggleClass("zen-space-selected", this.selectedPaths.has(item.path));
+		card.toggleClass("zen-space-pinned-item", this.isItemPinned(item.path));
+		card.addEventListener("focus", () => {
+			this.focusedPath = item.path;
 		});
+		this.visibleItems.push(item);
+		this.registerDraggable(card, item);
+		this.registerReorderTarget(card, item, true);
+
+		if (item instanceof TFolder) {
+			card.addClass("zen-space-folder-card");
+			this.registerDropTarget(card, item);
+
+			const header = card.createEl("div", { cls: "zen-space-card-title" });
+			setIcon(header.createEl("span", { cls: "zen-space-icon" }), "folder");
+			header.createEl("span", { text: item.name });
+			card.createEl("div", {
+				cls: "zen-space-card-meta",
+				text: `${item.children.length} items`,
+			});
 
-		
-		menu.addItem((item) => {
-			item.setTitle("New file")
-				.setIcon("file-plus")
-				.onClick(async () => {
-					await this.createNewFileInFolder(folder);
-				});
-		});
+			card.addEventListener("click", (e) => {
+				if (this.handleSelectionClick(e, item)) return;
+				this.navigateToFolder(item);
+			});
+			card.addEventListener("contextmenu", (e) => {
+				e.preventDefault();
+				if (this.selectedPaths.size > 1 && this.selectedPaths.has(item.path)) {
+					this.showBulkContextMenu(this.getSelectedItems(), e);
+					return;
+				}
+				this.showFolderContextMenu(item, e);
+			});
+			return;
+		}
 
-		
-		menu.addItem((item) => {
-			item.setTitle("New canvas")
-				.setIcon("layout-dashboard")
-				.onClick(async () => {
-					await this.createNewCanvasFileInFolder(folder);
-				});
-		});
+		if (!(item instanceof TFile)) return;
+		const file = item;
 
-		
-		menu.addItem((item) => {
-			item.setTitle("New subfolder")
-				.setIcon("folder-plus")
-				.onClick(async () => {
-					await this.createNewSubfolder(folder);
-				});
+		const thumbnail = this.getCardThumbnail(file);
+		if (thumbnail) {
+			card.createEl("img", {
+				cls: "zen-space-card-thumbnail",
+				attr: { src: thumbnail, alt: "", loading: "lazy" },
+			});
+		}
+
+		card.createEl("div", {
+			cls: "zen-space-card-title",
+			text: this.formatDisplayName(file),
 		});
 
-		
-		menu.addSeparator();
+		if (file.extension === "md") {
+			const excerptEl = card.createEl("div", { cls: "zen-space-card-excerpt" });
+			this.getCardExcerpt(file)
+				.then((excerpt) => excerptEl.setText(excerpt))
+				.catch(() => excerptEl.empty());
+		}
 
-		
-		menu.addItem((item) => {
-			item.setTitle("Rename")
-				.setIcon("pencil")
-				.onClick(async () => {
-					await this.renameFolder(folder);
-				});
-		});
+		const cache = this.app.metadataCache.getFileCache(file);
+		const tags = cache ? Array.from(new Set(getAllTags(cache) ?? [])) : [];
+		if (tags.length > 0) {
+			const tagsEl = card.createEl("div", { cls: "zen-space-card-tags" });
+			tags.slice(0, 5).forEach((tag) => {
+				tagsEl.createEl("span", { cls: "zen-space-card-tag", text: tag });
+			});
+		}
 
-		
-		menu.addItem((item) => {
-			item.setTitle("Delete")
-				.setIcon("trash")
-				.onClick(async () => {
-					await this.deleteFolder(folder);
-				});
+		card.createEl("div", {
+			cls: "zen-space-card-meta",
+			text: formatDate(file.stat.mtime),
 		});
 
-		
-		menu.showAtPosition({ x: event.clientX, y: event.clientY });
+		card.addEventListener("click", (e) => {
+			if (this.handleSelectionClick(e, file)) return;
+			this.app.workspace.getLeaf().openFile(file);
+		});
+		card.addEventListener("contextmenu", (e) => {
+			e.preventDefault();
+			if (this.selectedPaths.size > 1 && this.selectedPaths.has(file.path)) {
+				this.showBulkContextMenu(this.getSelectedItems(), e);
+				return;
+			}
+			this.showFileContextMenu(file, e);
+		});
 	}
 
 	
-	showFileContextMenu(file: TFile, event: MouseEvent) {
-		const menu = new Menu();
+	getCardThumbnail(file: TFile): string | null {
+		if (IMAGE_EXTENSIONS.includes(file.extension.toLowerCase())) {
+			return this.app.vault.getResourcePath(file);
+		}
 
-		
-		menu.addItem((item) => {
-			item.setTitle("Open")
-				.setIcon("file")
-				.onClick(() => {
-					this.app.workspace.getLeaf().openFile(file);
-				});
-		});
+		const embeds = this.app.metadataCache.getFileCache(file)?.embeds ?? [];
+		for (const embed of embeds) {
+			const target = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), file.path);
+			if (target && IMAGE_EXTENSIONS.includes(target.extension.toLowerCase())) {
+				return this.app.vault.getResourcePath(target);
+			}
+		}
+		return null;
+	}
 
-		
-		menu.addItem((item) => {
+	
+	async getCardExcerpt(file: TFile): Promise<string> {
+		const content = await this.app.vault.cachedRead(file);
+		const body = content.substring(getFrontMatterInfo(content).contentStart);
+		const text = body
+			.replace(/!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g, "")
+			.replace(/\[\[([^\]|]*\|)?([^\]]*)\]\]/g, "$2")
+			.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+			.replace(/^#+\s.*$/gm, "")
+			.replace(/[*_`>#~=-]+/g, " ")
+			.replace(/\s+/g, " ")
+			.trim();
+		return text.length > 160 ? `${text.substring(0, 160)}…` : text;
+	}
+
+	
+	getSearchableFiles(): TFile[] {
+		const files: TFile[] = [];
+		const collect = (folder: TFolder) => {
+			for (const child of folder.children) {
+				if (child instanceof TFile && this.shouldIncludeFile(child)) {
+					files.push(child);
+				} else if (child instanceof TFolder && this.shouldIncludeFile(child)) {
+					collect(child);
+				}
+			}
+		};
+		collect(this.folder);
+		return files;
+	}
+
+	
+	async renderSearchResults(container: HTMLElement, restoreFocus: boolean) {
+		const token = ++this.searchToken;
+		const query = parseSearchQuery(this.searchTerm);
+		this.visibleItems = [];
+
+		if (isEmptyQuery(query)) {
+			this.displayFolderContents(this.folder, container, true);
+			this.updateRovingFocus(restoreFocus);
+			return;
+		}
+
+		const results = await searchFiles(this.app, this.getSearchableFiles(), query);
+		
+		if (token !== this.searchToken) return;
+
+		container.empty();
+		this.visibleItems = [];
+
+		if (results.length === 0) {
+			container.createEl("div", {
+				cls: "zen-space-empty-message",
+				text: "No matching files found",
+			});
+			return;
+		}
+
+		for (const result of results) {
+			this.renderSearchResult(container, result);
+		}
+		this.updateRovingFocus(restoreFocus);
+	}
+
+	
+	renderSearchResult(container: HTMLElement, result: SearchResult) {
+		const { file } = result;
+		const row = container.createEl("div", {
+			cls: "zen-space-file-item zen-space-search-result zen-space-depth-0",
+		});
+		row.dataset.path = file.path;
+		row.tabIndex = -1;
+		row.setAttr("role", "treeitem");
+		row.setAttr("aria-level", "1");
+		row.setAttr("aria-selected", String(this.selectedPaths.has(file.path)));
+		row.toggleClass("zen-space-selected", this.selectedPaths.has(file.path));
+		row.toggleClass("zen-space-pinned-item", this.isItemPinned(file.path));
+		row.addEventListener("focus", () => {
+			this.focusedPath = file.path;
+		});
+		this.visibleItems.push(file);
+		this.registerDraggable(row, file);
+		this.registerReorderTarget(row, file);
+
+		if (!this.plugin.settings.hideFileIcons) {
+			const fileIcon = row.createEl("span", { cls: "zen-space-icon" });
+			setIcon(fileIcon, file.extension === "md" ? "file-text" :
+				file.extension === "canvas" ? "layout-dashboard" : "file");
+		}
+
+		const nameContainer = row.createEl("div", {
+			cls: "zen-space-name-container",
+		});
+		const nameEl = nameContainer.createEl("span", {
+			cls: "zen-space-item-name zen-space-file-name",
+		});
+		renderMatches(nameEl, file.basename, result.nameMatches);
+
+		if (file.parent && file.parent !== this.folder) {
+			nameContainer.createEl("span", {
+				text: file.parent.path,
+				cls: "zen-space-search-result-path",
+			});
+		}
+
+		if (result.snippet) {
+			const snippetEl = nameContainer.createEl("span", {
+				cls: "zen-space-search-snippet",
+			});
+			renderMatches(snippetEl, result.snippet.text, result.snippet.matches);
+		}
+
+		if (file.extension !== "md") {
+			row.createEl("span", {
+				text: file.extension.toUpperCase(),
+				cls: "zen-space-extension-badge",
+			});
+		}
+
+		row.addEventListener("click", (e) => {
+			if (this.handleSelectionClick(e, file)) return;
+			this.app.workspace.getLeaf().openFile(file);
+		});
+
+		row.addEventListener("contextmenu", (e) => {
+			e.preventDefault();
+			if (this.selectedPaths.size > 1 && this.selectedPaths.has(file.path)) {
+				this.showBulkContextMenu(this.getSelectedItems(), e);
+				return;
+			}
+			this.showFileContextMenu(file, e);
+		});
+	}
+
+	
+	getFileTime(file: TFile, type: "created" | "modified"): number {
+		if (type === "created") {
+			return file.stat.ctime;
+		} else {
+			return file.stat.mtime;
+		}
+	}
+
+	
+	formatDisplayName(file: TAbstractFile): string {
+		if (file instanceof TFolder) {
+			return file.name;
+		}
+
+		if (file instanceof TFile && this.plugin.getFolderSettings(file.parent ?? this.folder).hideFileExtensions) {
+			return file.name.slice(0, -(file.extension.length + 1));
+		}
+
+		return file.name;
+	}
+
+	
+	shouldIncludeFile(file: TAbstractFile): boolean {
+		const space = this.getSpace();
+		return this.plugin.getFileFilter(file.parent ?? this.folder, this.folder).matches(file) &&
+			(!space || this.plugin.getSpaceFilter(space, file).matches(file));
+	}
+
+	
+	showFolderContextMenu(folder: TFolder, event: MouseEvent) {
+		const menu = new Menu();
+
+		
+		menu.addItem((item) => {
+			item.setTitle("Open in Zen Space")
+				.setIcon("target")
+				.onClick(async () => {
+					this.navigateToFolder(folder);
+				});
+		});
+
+		
+		const isPinned = this.isItemPinned(folder.path);
+		menu.addItem((item) => {
+			item.setTitle(isPinned ? "Unpin folder" : "Pin folder")
+				.setIcon(isPinned ? "pin-off" : "pin")
+				.onClick(async () => {
+					await this.togglePinItem(folder.path);
+				});
+		});
+
+		
+		const indexFile = this.plugin.getIndexFile(folder);
+		if (indexFile) {
+			menu.addItem((item) => {
+				item.setTitle("Open index file")
+					.setIcon("list")
+					.onClick(() => {
+						this.app.workspace.getLeaf().openFile(indexFile);
+					});
+			});
+		}
+
+		
+		menu.addItem((item) => {
+			item.setTitle("Folder settings")
+				.setIcon("settings")
+				.onClick(() => {
+					new FolderSettingsModal(this.app, this.plugin, folder).open();
+				});
+		});
+		
+		menu.addItem((item) => {
+			item.setTitle("New file")
+				.setIcon("file-plus")
+				.onClick(async () => {
+					await this.createNewFileInFolder(folder);
+				});
+		});
+
+		
+		menu.addItem((item) => {
+			item.setTitle("New canvas")
+				.setIcon("layout-dashboard")
+				.onClick(async () => {
+					await this.createNewCanvasFileInFolder(folder);
+				});
+		});
+
+		
+		menu.addItem((item) => {
+			item.setTitle("New subfolder")
+				.setIcon("folder-plus")
+				.onClick(async () => {
+					await this.createNewSubfolder(folder);
+				});
+		});
+
+		
+		menu.addSeparator();
+
+		
+		menu.addItem((item) => {
+			item.setTitle("Rename")
+				.setIcon("pencil")
+				.onClick(async () => {
+					await this.renameFolder(folder);
+				});
+		});
+
+		
+		menu.addItem((item) => {
+			item.setTitle("Move to...")
+				.setIcon("folder-input")
+				.onClick(async () => {
+					await this.promptMoveItem(folder);
+				});
+		});
+
+		
+		menu.addItem((item) => {
+			item.setTitle("Delete")
+				.setIcon("trash")
+				.onClick(async () => {
+					await this.deleteFolder(folder);
+				});
+		});
+
+		
+		menu.showAtPosition({ x: event.clientX, y: event.clientY });
+	}
+
+	
+	showFileContextMenu(file: TFile, event: MouseEvent) {
+		const menu = new Menu();
+
+		
+		menu.addItem((item) => {
+			item.setTitle("Open")
+				.setIcon("file")
+				.onClick(() => {
+					this.app.workspace.getLeaf().openFile(file);
+				});
+		});
+
+		
+		menu.addItem((item) => {
 			item.setTitle("Open in new tab")
 				.setIcon("file-plus")
 				.onClick(() => {
@@ -785,6 +1578,15 @@ class ZenSpaceView extends ItemView {
 		});
 
 		
+		menu.addItem((item) => {
+			item.setTitle("Move to...")
+				.setIcon("folder-input")
+				.onClick(async () => {
+					await this.promptMoveItem(file);
+				});
+		});
+
+		
 		menu.addItem((item) => {
 			item.setTitle("Delete")
 				.setIcon("trash")
@@ -797,13 +1599,411 @@ class ZenSpaceView extends ItemView {
 		menu.showAtPosition({ x: event.clientX, y: event.clientY });
 	}
 
-	displayFolderContents(
+	showBulkContextMenu(items: TAbstractFile[], event: MouseEvent) {
+		const menu = new Menu();
+		const files = items.filter((item): item is TFile => item instanceof TFile);
+		const allPinned = items.every((item) => this.isItemPinned(item.path));
+
+		
+		if (files.length > 0) {
+			menu.addItem((item) => {
+				item.setTitle(`Open ${files.length} files`)
+					.setIcon("files")
+					.onClick(() => {
+						this.openAll(files);
+					});
+			});
+		}
+
+		
+		menu.addItem((item) => {
+			item.setTitle(allPinned ? `Unpin ${items.length} items` : `Pin ${items.length} items`)
+				.setIcon(allPinned ? "pin-off" : "pin")
+				.onClick(async () => {
+					await this.setItemsPinned(items, !allPinned);
+				});
+		});
+
+		
+		if (files.some((file) => file.extension === "md")) {
+			menu.addItem((item) => {
+				item.setTitle("Add tag...")
+					.setIcon("tag")
+					.onClick(async () => {
+						await this.tagItems(files);
+					});
+			});
+		}
+
+		menu.addSeparator();
+
+		
+		menu.addItem((item) => {
+			item.setTitle(`Move ${items.length} items to...`)
+				.setIcon("folder-input")
+				.onClick(async () => {
+					const target = await new Promise<TFolder | null>((resolve) => {
+						new FolderSuggestModal(this.app, items, resolve).open();
+					});
+					if (target) {
+						await this.moveItemsWithUndo(items, target);
+						this.clearSelection();
+					}
+				});
+		});
+
+		
+		menu.addItem((item) => {
+			item.setTitle(`Delete ${items.length} items`)
+				.setIcon("trash")
+				.onClick(() => {
+					this.deleteItems(items);
+				});
+		});
+
+		menu.showAtPosition({ x: event.clientX, y: event.clientY });
+	}
+
+	
+	handleSelectionClick(e: MouseEvent, file: TAbstractFile): boolean {
+		if ((e.target as HTMLElement).closest(".zen-space-file-action-button")) {
+			return false;
+		}
+
+		if (e.shiftKey) {
+			this.selectRange(this.selectionAnchor ?? file.path, file.path);
+			this.focusedPath = file.path;
+			return true;
+		}
+
+		if (e.ctrlKey || e.metaKey) {
+			if (this.selectedPaths.has(file.path)) {
+				this.selectedPaths.delete(file.path);
+			} else {
+				this.selectedPaths.add(file.path);
+			}
+			this.selectionAnchor = file.path;
+			this.focusedPath = file.path;
+			this.updateSelectionClasses();
+			return true;
+		}
+
+		this.clearSelection();
+		this.selectionAnchor = file.path;
+		this.focusedPath = file.path;
+		return false;
+	}
+
+	
+	handleKeyDown(e: KeyboardEvent) {
+		const target = e.target as HTMLElement;
+		if (target.closest("input, textarea, [contenteditable='true']")) {
+			return;
+		}
+
+		if (e.altKey && (e.key === "ArrowLeft" || e.key === "ArrowRight")) {
+			e.preventDefault();
+			if (e.key === "ArrowLeft") {
+				this.goBack();
+			} else {
+				this.goForward();
+			}
+			return;
+		}
+
+		if (e.key === "/") {
+			const searchInput = this.contentEl.querySelector<HTMLInputElement>(".zen-space-search-input");
+			if (searchInput) {
+				e.preventDefault();
+				searchInput.focus();
+				searchInput.select();
+			}
+			return;
+		}
+
+		if (!this.fileListContainer || !this.fileListContainer.contains(target)) {
+			return;
+		}
+
+		if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "a") {
+			e.preventDefault();
+			this.selectedPaths = new Set(this.visibleItems.map((item) => item.path));
+			this.updateSelectionClasses();
+			return;
+		}
+
+		if (e.key === "Escape" && this.selectedPaths.size > 0) {
+			e.preventDefault();
+			this.clearSelection();
+			return;
+		}
+
+		if (e.key === "Backspace") {
+			e.preventDefault();
+			if (this.folder.parent) {
+				this.navigateToFolder(this.folder.parent);
+			}
+			return;
+		}
+
+		const paths = this.visibleItems.map((item) => item.path);
+		if (paths.length === 0) return;
+		const current = this.focusedPath ? paths.indexOf(this.focusedPath) : -1;
+		const item = current === -1 ? null : this.visibleItems[current];
+
+		switch (e.key) {
+			case "ArrowDown":
+			case "ArrowUp": {
+				e.preventDefault();
+				const next = current === -1
+					? 0
+					: Math.max(0, Math.min(paths.length - 1, current + (e.key === "ArrowDown" ? 1 : -1)));
+				if (e.shiftKey) {
+					this.selectionAnchor = this.selectionAnchor ?? paths[Math.max(current, 0)];
+					this.selectRange(this.selectionAnchor, paths[next]);
+				} else {
+					this.selectionAnchor = paths[next];
+				}
+				this.focusRow(paths[next]);
+				break;
+			}
+			case "Home":
+			case "End":
+				e.preventDefault();
+				this.focusRow(e.key === "Home" ? paths[0] : paths[paths.length - 1]);
+				break;
+			case "ArrowRight":
+				e.preventDefault();
+				if (item instanceof TFolder) {
+					if (!this.expandedFolders.has(item.path)) {
+						this.expandedFolders.add(item.path);
+						this.refreshView();
+					} else if (current + 1 < paths.length && this.visibleItems[current + 1].parent === item) {
+						this.focusRow(paths[current + 1]);
+					}
+				}
+				break;
+			case "ArrowLeft":
+				e.preventDefault();
+				if (item instanceof TFolder && this.expandedFolders.has(item.path)) {
+					this.expandedFolders.delete(item.path);
+					this.refreshView();
+				} else if (item?.parent && paths.includes(item.parent.path)) {
+					this.focusRow(item.parent.path);
+				}
+				break;
+			case "Enter":
+				e.preventDefault();
+				if (item instanceof TFile) {
+					this.app.workspace.getLeaf(e.ctrlKey || e.metaKey ? "tab" : false).openFile(item);
+				} else if (item instanceof TFolder) {
+					this.navigateToFolder(item);
+				}
+				break;
+			case "F2":
+				e.preventDefault();
+				if (item instanceof TFile) {
+					this.renameFile(item);
+				} else if (item instanceof TFolder) {
+					this.renameFolder(item);
+				}
+				break;
+			case "Delete":
+				e.preventDefault();
+				if (item && this.selectedPaths.size > 1 && this.selectedPaths.has(item.path)) {
+					this.deleteItems(this.getSelectedItems());
+				} else if (item instanceof TFile) {
+					this.deleteFile(item);
+				} else if (item instanceof TFolder) {
+					this.deleteFolder(item);
+				}
+				break;
+		}
+	}
+
+	
+	focusRow(path: string) {
+		this.focusedPath = path;
+		const row = this.getRowElement(path);
+		if (!row) return;
+		this.fileListContainer
+			.querySelectorAll<HTMLElement>(`${ROW_SELECTOR}[tabindex='0']`)
+			.forEach((el) => (el.tabIndex = -1));
+		row.tabIndex = 0;
+		row.focus();
+		row.scrollIntoView({ block: "nearest" });
+	}
+
+	
+	updateRovingFocus(restoreFocus: boolean) {
+		const path = this.focusedPath && this.getRowElement(this.focusedPath)
+			? this.focusedPath
+			: this.visibleItems[0]?.path;
+		if (!path) return;
+
+		if (restoreFocus) {
+			this.focusRow(path);
+		} else {
+			const row = this.getRowElement(path);
+			if (row) row.tabIndex = 0;
+		}
+	}
+
+	getRowElement(path: string): HTMLElement | null {
+		if (!this.fileListContainer) return null;
+		return this.fileListContainer.querySelector<HTMLElement>(
+			`${ROW_SELECTOR}[data-path="${CSS.escape(path)}"]`
+		);
+	}
+
+	
+	selectRange(fromPath: string, toPath: string) {
+		const paths = this.visibleItems.map((item) => item.path);
+		const from = paths.indexOf(fromPath);
+		const to = paths.indexOf(toPath);
+		if (from === -1 || to === -1) {
+			this.selectedPaths = new Set([toPath]);
+		} else {
+			this.selectedPaths = new Set(paths.slice(Math.min(from, to), Math.max(from, to) + 1));
+		}
+		this.updateSelectionClasses();
+	}
+
+	clearSelection() {
+		if (this.selectedPaths.size === 0) return;
+		this.selectedPaths.clear();
+		this.updateSelectionClasses();
+	}
+
+	updateSelectionClasses() {
+		if (!this.fileListContainer) return;
+		this.fileListContainer
+			.querySelectorAll<HTMLElement>(ROW_SELECTOR)
+			.forEach((el) => {
+				const selected = this.selectedPaths.has(el.dataset.path ?? "");
+				el.toggleClass("zen-space-selected", selected);
+				el.setAttr("aria-selected", String(selected));
+			});
+	}
+
+	getSelectedItems(): TAbstractFile[] {
+		return Array.from(this.selectedPaths)
+			.map((path) => this.app.vault.getAbstractFileByPath(path))
+			.filter((item): item is TAbstractFile => item !== null);
+	}
+
+	
+	openAll(files: TFile[]) {
+		files.forEach((file) => {
+			this.app.workspace.getLeaf("tab").openFile(file);
+		});
+	}
+
+	
+	async setItemsPinned(items: TAbstractFile[], pinned: boolean) {
+		const paths = items.map((item) => item.path);
+		const pinnedItems = this.plugin.getPinnedItems(this.spaceName);
+		await this.plugin.setPinnedItems(
+			this.spaceName,
+			pinned
+				? [...pinnedItems, ...paths.filter((path) => !pinnedItems.includes(path))]
+				: pinnedItems.filter((path) => !paths.includes(path))
+		);
+		this.refreshView();
+	}
+
+	
+	async tagItems(files: TFile[]) {
+		const tag = await new Promise<string | null>((resolve) => {
+			new FolderNameModal(this.app, "Enter tag", resolve, {
+				submitText: "Add tag",
+				validate: (value) => {
+					const name = value.trim().replace(/^#/, "");
+					if (!name) return "Tag cannot be empty";
+					if (/\s/.test(name)) return "Tag cannot contain spaces";
+					return null;
+				},
+			}).open();
+		});
+		if (!tag) return;
+
+		const name = tag.trim().replace(/^#/, "");
+		const notes = files.filter((file) => file.extension === "md");
+		for (const file of notes) {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				const tags: string[] = Array.isArray(frontmatter.tags)
+					? frontmatter.tags
+					: typeof frontmatter.tags === "string"
+						? frontmatter.tags.split(/[,\s]+/).filter(Boolean)
+						: [];
+				if (!tags.includes(name)) {
+					tags.push(name);
+				}
+				frontmatter.tags = tags;
+			});
+		}
+		new Notice(`Tagged ${notes.length} notes with #${name}`);
+	}
+
+	
+	deleteItems(items: TAbstractFile[]) {
+		const message = `Are you sure you want to delete ${items.length} items? Folders are deleted with all their contents.`;
+		new ConfirmModal(this.app, message, async () => {
+			let deleted = 0;
+			for (const item of items) {
+				
+				if (!this.app.vault.getAbstractFileByPath(item.path)) continue;
+				try {
+					await this.app.vault.delete(item, true);
+					deleted++;
+				} catch (error) {
+					new Notice(`Error deleting ${item.name}: ${error}`);
+				}
+			}
+
+			this.selectedPaths.clear();
+			new Notice(`Deleted ${deleted} items`);
+			this.refreshView();
+		}).open();
+	}
+
+	private getGroupKey(groupName: string): string {
+		return `${this.folder.path}|${this.currentGroupBy}|${groupName}`;
+	}
+
+	
+	renderGroupHeader(container: HTMLElement, groupName: string, count: number) {
+		const key = this.getGroupKey(groupName);
+		const isCollapsed = this.collapsedGroups.has(key);
+		const header = container.createEl("div", {
+			cls: "zen-space-group-header",
+			attr: { role: "button", "aria-expanded": String(!isCollapsed) },
+		});
+		setIcon(header.createEl("span", { cls: "zen-space-icon" }), isCollapsed ? "chevron-right" : "chevron-down");
+		header.createEl("span", { text: groupName });
+		header.createEl("span", { cls: "zen-space-group-count", text: String(count) });
+
+		header.addEventListener("click", () => {
+			if (isCollapsed) {
+				this.collapsedGroups.delete(key);
+			} else {
+				this.collapsedGroups.add(key);
+			}
+			this.refreshView();
+		});
+	}
+
+		displayFolderContents(
 		folder: TFolder,
 		container: HTMLElement,
 		isRootFolder = false,
 		depth = 0
 	) {
-		let filesToDisplay: TAbstractFile[] = folder.children;
+		let filesToDisplay: TAbstractFile[] = folder.children.filter((child) => this.shouldIncludeFile(child));
+
+		if (isRootFolder) {
+			this.visibleItems = [];
+		}
 
 		if (filesToDisplay.length === 0 && !isRootFolder) {
 			return;
@@ -813,7 +2013,23 @@ class ZenSpaceView extends ItemView {
 		const folders = filesToDisplay.filter((f): f is TFolder => f instanceof TFolder);
 		const files = filesToDisplay.filter((f): f is TFile => f instanceof TFile);
 		const sortedFolders = this.sortFiles(folders);
-		const sortedFiles = this.sortFiles(files);
+		let sortedFiles = this.sortFiles(files);
+
+		
+		const groupStarts = new Map<TAbstractFile, { name: string, count: number }>();
+		const collapsedFiles = new Set<TAbstractFile>();
+		if (isRootFolder && this.currentGroupBy) {
+			const groups = groupByProperty(sortedFiles, this.currentGroupBy, (file) =>
+				getPropertyValue(this.app, file as TFile, this.currentGroupBy)
+			);
+			sortedFiles = groups.flatMap((group) => group.items);
+			for (const group of groups) {
+				groupStarts.set(group.items[0], { name: group.name, count: group.items.length });
+				if (this.collapsedGroups.has(this.getGroupKey(group.name))) {
+					group.items.forEach((file) => collapsedFiles.add(file));
+				}
+			}
+		}
 		filesToDisplay = [...sortedFolders, ...sortedFiles];
 
 		if (filesToDisplay.length === 0) {
@@ -827,25 +2043,52 @@ class ZenSpaceView extends ItemView {
 		}
 
 		for (const file of filesToDisplay) {
+			const groupStart = groupStarts.get(file);
+			if (groupStart) {
+				this.renderGroupHeader(container, groupStart.name, groupStart.count);
+			}
+			if (collapsedFiles.has(file)) {
+				continue;
+			}
+
 			const fileItem = container.createEl("div", {
 				cls: isRootFolder && !(file instanceof TFolder) ? 
 					"zen-space-file-item zen-space-depth-r" : 
 					`zen-space-file-item zen-space-depth-${depth}`,
 			});
 
+			fileItem.dataset.path = file.path;
+			fileItem.tabIndex = -1;
+			fileItem.setAttr("role", "treeitem");
+			fileItem.setAttr("aria-level", String(depth + 1));
+			fileItem.setAttr("aria-selected", String(this.selectedPaths.has(file.path)));
+			fileItem.addEventListener("focus", () => {
+				this.focusedPath = file.path;
+			});
+			this.visibleItems.push(file);
+
 			
 			if (this.isItemPinned(file.path)) {
 				fileItem.addClass("zen-space-pinned-item");
 			}
 
+			if (this.selectedPaths.has(file.path)) {
+				fileItem.addClass("zen-space-selected");
+			}
+
+			this.registerDraggable(fileItem, file);
+			this.registerReorderTarget(fileItem, file);
+
 			
 			if (file instanceof TFolder) {
 				fileItem.addClass("zen-space-folder-item");
+				this.registerDropTarget(fileItem, file);
 
 				
 				const toggleIcon = fileItem.createEl('span', { cls: 'zen-space-icon' });
 				const isExpanded = this.expandedFolders.has(file.path);
 				setIcon(toggleIcon, isExpanded ? 'chevron-down' : 'chevron-right');
+				fileItem.setAttr("aria-expanded", String(isExpanded));
 
 				toggleIcon.addEventListener("click", (e) => {
 					e.stopPropagation();
@@ -874,6 +2117,7 @@ class ZenSpaceView extends ItemView {
 				
 				const childContainer = container.createEl("div", {
 					cls: "zen-space-subfolder-container",
+					attr: { role: "group" },
 				});
 
 				
@@ -886,7 +2130,8 @@ class ZenSpaceView extends ItemView {
 					}
 				}
 
-				fileItem.addEventListener("click", () => {
+				fileItem.addEventListener("click", (e) => {
+					if (this.handleSelectionClick(e, file)) return;
 					const isExpanded = this.expandedFolders.has(file.path);
 					if (isExpanded) {
 						this.expandedFolders.delete(file.path);
@@ -899,6 +2144,10 @@ class ZenSpaceView extends ItemView {
 				
 				fileItem.addEventListener("contextmenu", (e) => {
 					e.preventDefault();
+					if (this.selectedPaths.size > 1 && this.selectedPaths.has(file.path)) {
+						this.showBulkContextMenu(this.getSelectedItems(), e);
+						return;
+					}
 					this.showFolderContextMenu(file as TFolder, e);
 				});
 
@@ -907,6 +2156,10 @@ class ZenSpaceView extends ItemView {
 					this.addFolderActions(fileItem, file as TFolder);
 				}
 			} else if (file instanceof TFile) {
+				if (this.plugin.isIndexFile(file)) {
+					fileItem.addClass("zen-space-index-file");
+				}
+
 				if (!this.plugin.settings.hideFileIcons) {
 					const fileIcon = fileItem.createEl('span', { cls: 'zen-space-icon' });
 					setIcon(fileIcon, file.extension === 'md' ? 'file-text' : 
@@ -936,6 +2189,7 @@ class ZenSpaceView extends ItemView {
 
 				
 				fileItem.addEventListener("click", (e) => {
+					if (this.handleSelectionClick(e, file)) return;
 					
 					if (
 						!(e.target as HTMLElement).closest(
@@ -949,6 +2203,10 @@ class ZenSpaceView extends ItemView {
 				
 				fileItem.addEventListener("contextmenu", (e) => {
 					e.preventDefault();
+					if (this.selectedPaths.size > 1 && this.selectedPaths.has(file.path)) {
+						this.showBulkContextMenu(this.getSelectedItems(), e);
+						return;
+					}
 					this.showFileContextMenu(file, e);
 				});
 
@@ -1079,7 +2337,7 @@ class ZenSpaceView extends ItemView {
 
 		openButton.addEventListener("click", (e) => {
 			e.stopPropagation();
-			this.plugin.openInZenSpace(folder);
+			this.navigateToFolder(folder);
 		});
 	}
 
@@ -1092,34 +2350,22 @@ class ZenSpaceView extends ItemView {
 			new FolderNameModal(
 				this.app,
 				"Enter new folder name",
-				resolve
+				resolve,
+				{
+					defaultValue: currentName,
+					submitText: "Rename",
+					validate: (value) => this.validateItemName(value, folder),
+				}
 			).open();
 		});
 
-		if (newName && newName !== currentName) {
+		if (newName && newName.trim() !== currentName) {
+			const newPath = this.getSiblingPath(folder, newName.trim());
 			try {
-				
-				new Notice(`Folder renamed to ${newName}`);
-
-				
-				const oldPath = folder.path;
-				const newPath = folder.parent
-					? `${folder.parent.path}/${newName}`
-					: newName;
+				// The plugin's rename handler moves the Index file along
+				await this.app.fileManager.renameFile(folder, newPath);
 
-				
-				this.plugin.settings.pinnedItems =
-					this.plugin.settings.pinnedItems.map((item) => {
-						if (item === oldPath) {
-							return newPath;
-						}
-						if (item.startsWith(oldPath + "/")) {
-							return newPath + item.substring(oldPath.length);
-						}
-						return item;
-					});
-
-				await this.plugin.saveSettings();
+				new Notice(`Folder renamed to ${newName.trim()}`);
 				this.refreshView();
 			} catch (error) {
 				new Notice(`Error renaming folder: ${error}`);
@@ -1132,12 +2378,7 @@ class ZenSpaceView extends ItemView {
 		const message = `Are you sure you want to delete "${folder.name}" and all its contents?`;
 		new ConfirmModal(this.app, message, async () => {
 			try {
-				
-				this.plugin.settings.pinnedItems = this.plugin.settings.pinnedItems.filter(
-					(item) => !item.startsWith(folder.path + "/") && item !== folder.path
-				);
 				await this.app.vault.delete(folder, true);
-				await this.plugin.saveSettings();
 				new Notice(`Folder deleted: ${folder.name}`);
 				this.refreshView();
 			} catch (error) {
@@ -1148,72 +2389,388 @@ class ZenSpaceView extends ItemView {
 
 	
 	async renameFile(file: TFile) {
-		const currentName = file.name;
-		const oldFolder = file.parent;
-		const oldPath = file.path;
-
 		
 		const newName = await new Promise<string | null>((resolve) => {
 			new FolderNameModal(
 				this.app,
 				"Enter new file name",
-				resolve
+				resolve,
+				{
+					defaultValue: file.basename,
+					submitText: "Rename",
+					validate: (value) => this.validateItemName(this.withExtension(value, file), file),
+				}
 			).open();
 		});
 
-		if (newName && newName !== currentName) {
-			try {
-				
-				new Notice(`File renamed to ${newName}`);
+		if (!newName) return;
+
+		const fileName = this.withExtension(newName, file);
+		if (fileName === file.name) return;
+
+		const newPath = this.getSiblingPath(file, fileName);
+		try {
+			await this.app.fileManager.renameFile(file, newPath);
+			new Notice(`File renamed to ${fileName}`);
+		} catch (error) {
+			new Notice(`Error renaming file: ${error}`);
+		}
+	}
+
+	
+	withExtension(name: string, file: TFile): string {
+		const trimmed = name.trim();
+		return trimmed.toLowerCase().endsWith(`.${file.extension.toLowerCase()}`)
+			? trimmed
+			: `${trimmed}.${file.extension}`;
+	}
+
+	
+	getSiblingPath(item: TAbstractFile, name: string): string {
+		return item.parent && item.parent.path !== "/"
+			? normalizePath(`${item.parent.path}/${name}`)
+			: normalizePath(name);
+	}
+
+	
+	validateItemName(name: string, item: TAbstractFile, targetFolder: TFolder | null = item.parent): string | null {
+		const trimmed = name.trim();
+		if (!trimmed || trimmed === "." || trimmed === "..") {
+			return "Name cannot be empty";
+		}
+		if (/[\\/:*?"<>|]/.test(trimmed)) {
+			return 'Name cannot contain any of these characters: \\ / : * ? " < > |';
+		}
+		if (/[#^[\]]/.test(trimmed)) {
+			return "Name cannot contain # ^ [ ] because they break links";
+		}
+		if (trimmed.startsWith(".")) {
+			return "Name cannot start with a dot";
+		}
+
+		
+		const siblings = targetFolder ? targetFolder.children : [];
+		const collision = siblings.some(
+			(sibling) => sibling !== item && sibling.name.toLowerCase() === trimmed.toLowerCase()
+		);
+		if (collision) {
+			return `"${trimmed}" already exists in ${targetFolder?.isRoot() ? "the vault root" : targetFolder?.name}`;
+		}
+		return null;
+	}
+
+	
+	async promptMoveItem(item: TAbstractFile) {
+		const target = await new Promise<TFolder | null>((resolve) => {
+			new FolderSuggestModal(this.app, [item], resolve).open();
+		});
+		if (target) {
+			await this.moveItem(item, target);
+		}
+	}
+
+	
+	async moveItem(item: TAbstractFile, target: TFolder, notify = true): Promise<boolean> {
+		if (item.parent === target) {
+			return false;
+		}
+		if (item instanceof TFolder && (target === item || target.path.startsWith(item.path + "/"))) {
+			new Notice("A folder cannot be moved into itself");
+			return false;
+		}
+
+		const error = this.validateItemName(item.name, item, target);
+		if (error) {
+			new Notice(error);
+			return false;
+		}
+
+		const newPath = target.isRoot()
+			? normalizePath(item.name)
+			: normalizePath(`${target.path}/${item.name}`);
+		try {
+			await this.app.fileManager.renameFile(item, newPath);
+			if (notify) {
+				new Notice(`Moved ${item.name} to ${target.isRoot() ? "the vault root" : target.name}`);
+			}
+			this.refreshView();
+			return true;
+		} catch (error) {
+			new Notice(`Error moving ${item.name}: ${error}`);
+			return false;
+		}
+	}
+
+	
+	private getDragManager(): ObsidianDragManager | null {
+		return (this.app as unknown as { dragManager?: ObsidianDragManager }).dragManager ?? null;
+	}
+
+	
+	registerDraggable(el: HTMLElement, item: TAbstractFile) {
+		el.draggable = true;
+
+		el.addEventListener("dragstart", (e) => {
+			if (!e.dataTransfer) return;
+
+			
+			const dragManager = this.getDragManager();
+			if (dragManager) {
+				const dragData = item instanceof TFile
+					? dragManager.dragFile(e, item)
+					: dragManager.dragFolder(e, item as TFolder);
+				dragManager.onDragStart(e, dragData);
+			}
+
+			const paths = this.selectedPaths.has(item.path)
+				? Array.from(this.selectedPaths)
+				: [item.path];
+			e.dataTransfer.setData(ZEN_SPACE_DRAG_TYPE, JSON.stringify(paths));
+			e.dataTransfer.effectAllowed = "all";
+			el.addClass("zen-space-dragging");
+			// dataTransfer can't be read during dragover, so reordering needs its own copy
+			this.draggedPaths = paths;
+		});
+
+		el.addEventListener("dragend", () => {
+			el.removeClass("zen-space-dragging");
+			this.draggedPaths = [];
+		});
+	}
+
+	
+	registerReorderTarget(el: HTMLElement, item: TAbstractFile, horizontal = false) {
+		const clearIndicator = () => {
+			el.removeClass("zen-space-reorder-before");
+			el.removeClass("zen-space-reorder-after");
+		};
+
+		el.addEventListener("dragover", (e) => {
+			const position = this.getReorderPosition(e, el, item, horizontal);
+			el.toggleClass("zen-space-reorder-before", position === "before");
+			el.toggleClass("zen-space-reorder-after", position === "after");
+			if (!position || !e.dataTransfer) return;
+			e.preventDefault();
+			e.stopImmediatePropagation();
+			e.dataTransfer.dropEffect = "move";
+			el.removeClass("zen-space-drop-target");
+		});
+
+		el.addEventListener("dragleave", (e) => {
+			if (!el.contains(e.relatedTarget as Node | null)) {
+				clearIndicator();
+			}
+		});
+
+		el.addEventListener("drop", async (e) => {
+			const position = this.getReorderPosition(e, el, item, horizontal);
+			clearIndicator();
+			if (!position) return;
+			e.preventDefault();
+			e.stopImmediatePropagation();
+			await this.reorderItems(item, position);
+		});
+	}
+
+	
+	private getReorderPosition(
+		e: DragEvent,
+		el: HTMLElement,
+		target: TAbstractFile,
+		horizontal: boolean
+	): "before" | "after" | null {
+		if (this.currentSortBy !== "custom" || this.searchTerm) return null;
+		if (this.draggedPaths.length === 0 || this.draggedPaths.includes(target.path)) return null;
+
+		const sameParent = this.draggedPaths.every((path) =>
+			this.app.vault.getAbstractFileByPath(path)?.parent === target.parent
+		);
+		if (!sameParent) return null;
+
+		const rect = el.getBoundingClientRect();
+		const offset = horizontal
+			? (e.clientX - rect.left) / rect.width
+			: (e.clientY - rect.top) / rect.height;
+
+		// The middle of a folder row still means "move into this folder"
+		if (target instanceof TFolder) {
+			if (offset < 0.25) return "before";
+			if (offset > 0.75) return "after";
+			return null;
+		}
+		return offset < 0.5 ? "before" : "after";
+	}
+
+	
+	async reorderItems(target: TAbstractFile, position: "before" | "after") {
+		const folder = target.parent;
+		if (!folder) return;
+
+		const current = this.sortFiles([...folder.children]).map((child) => child.name);
+		const draggedNames = new Set(
+			this.draggedPaths.map((path) => path.substring(path.lastIndexOf("/") + 1))
+		);
+		const moved = current.filter((name) => draggedNames.has(name));
+		const order = current.filter((name) => !draggedNames.has(name));
+		const index = order.indexOf(target.name) + (position === "after" ? 1 : 0);
+		order.splice(index, 0, ...moved);
+
+		this.draggedPaths = [];
+		await this.plugin.setCustomOrder(folder, order);
+	}
+
+	
+	registerDropTarget(el: HTMLElement, folder: TFolder) {
+		el.addEventListener("dragover", (e) => {
+			if (!e.dataTransfer || !this.isSupportedDrag(e)) return;
+			e.preventDefault();
+			e.stopPropagation();
+			e.dataTransfer.dropEffect = e.dataTransfer.types.includes("Files") ? "copy" : "move";
+			el.addClass("zen-space-drop-target");
+		});
+
+		el.addEventListener("dragleave", (e) => {
+			if (!el.contains(e.relatedTarget as Node | null)) {
+				el.removeClass("zen-space-drop-target");
+			}
+		});
+
+		el.addEventListener("drop", async (e) => {
+			el.removeClass("zen-space-drop-target");
+			if (!e.dataTransfer || !this.isSupportedDrag(e)) return;
+			e.preventDefault();
+			e.stopPropagation();
+			await this.handleDrop(e.dataTransfer, folder);
+		});
+	}
+
+	
+	private isSupportedDrag(e: DragEvent): boolean {
+		const types = e.dataTransfer?.types ?? [];
+		return types.includes(ZEN_SPACE_DRAG_TYPE) ||
+			types.includes("Files") ||
+			!!this.getDragManager()?.draggable;
+	}
+
+	
+	private getDraggedItems(dataTransfer: DataTransfer): TAbstractFile[] {
+		const raw = dataTransfer.getData(ZEN_SPACE_DRAG_TYPE);
+		if (raw) {
+			const paths: string[] = JSON.parse(raw);
+			return paths
+				.map((path) => this.app.vault.getAbstractFileByPath(path))
+				.filter((item): item is TAbstractFile => item !== null);
+		}
 
-				
-				const newPath = file.parent
-					? `${file.parent.path}/${newName}`
-					: newName;
-				this.plugin.settings.pinnedItems =
-					this.plugin.settings.pinnedItems.map((item) =>
-						item === oldPath ? newPath : item
-					);
+		
+		const draggable = this.getDragManager()?.draggable;
+		if (draggable?.file) return [draggable.file];
+		if (draggable?.files) return draggable.files;
+		return [];
+	}
 
-				await this.plugin.saveSettings();
+	
+	async handleDrop(dataTransfer: DataTransfer, target: TFolder) {
+		const items = this.getDraggedItems(dataTransfer);
+		if (items.length > 0) {
+			await this.moveItemsWithUndo(items, target);
+			return;
+		}
 
-				
-				if (this.plugin.settings.createIndexFile) {
-					
-					if (file.parent !== oldFolder && oldFolder) {
-						await this.plugin.updateIndexFileContent(oldFolder);
-					}
+		if (dataTransfer.files.length > 0) {
+			await this.importExternalFiles(Array.from(dataTransfer.files), target);
+		}
+	}
 
-					
-					if (file.parent) {
-						await this.plugin.updateIndexFileContent(file.parent);
+	
+	async moveItemsWithUndo(items: TAbstractFile[], target: TFolder) {
+		const moves: { item: TAbstractFile, from: TFolder }[] = [];
+		for (const item of items) {
+			const from = item.parent;
+			if (item === target) continue;
+			if (from && await this.moveItem(item, target, false)) {
+				moves.push({ item, from });
+			}
+		}
+		if (moves.length > 0) {
+			const label = moves.length === 1 ? moves[0].item.name : `${moves.length} items`;
+			this.showUndoNotice(
+				`Moved ${label} to ${target.isRoot() ? "the vault root" : target.name}`,
+				async () => {
+					for (const { item, from } of moves) {
+						await this.moveItem(item, from, false);
 					}
 				}
+			);
+		}
+	}
+
+	
+	async importExternalFiles(files: File[], target: TFolder) {
+		const imported: TFile[] = [];
+		for (const file of files) {
+			try {
+				const path = this.getAvailablePath(target, file.name);
+				const data = await file.arrayBuffer();
+				imported.push(await this.app.vault.createBinary(path, data));
 			} catch (error) {
-				new Notice(`Error renaming file: ${error}`);
+				new Notice(`Error importing ${file.name}: ${error}`);
 			}
 		}
+
+		if (imported.length > 0) {
+			const label = imported.length === 1 ? imported[0].name : `${imported.length} files`;
+			this.showUndoNotice(
+				`Imported ${label} into ${target.isRoot() ? "the vault root" : target.name}`,
+				async () => {
+					for (const file of imported) {
+						await this.app.vault.trash(file, true);
+					}
+				}
+			);
+			this.refreshView();
+		}
+	}
+
+	
+	getAvailablePath(folder: TFolder, fileName: string): string {
+		const dot = fileName.lastIndexOf(".");
+		const base = dot > 0 ? fileName.substring(0, dot) : fileName;
+		const extension = dot > 0 ? fileName.substring(dot) : "";
+		const prefix = folder.isRoot() ? "" : `${folder.path}/`;
+
+		let candidate = normalizePath(`${prefix}${fileName}`);
+		for (let i = 1; this.app.vault.getAbstractFileByPath(candidate); i++) {
+			candidate = normalizePath(`${prefix}${base} ${i}${extension}`);
+		}
+		return candidate;
+	}
+
+	
+	showUndoNotice(message: string, undo: () => Promise<void>) {
+		const fragment = document.createDocumentFragment();
+		fragment.createSpan({ text: message });
+		const undoButton = fragment.createEl("button", {
+			text: "Undo",
+			cls: "zen-space-undo-button",
+		});
+
+		const notice = new Notice(fragment, 8000);
+		undoButton.addEventListener("click", async (e) => {
+			e.stopPropagation();
+			notice.hide();
+			await undo();
+			this.refreshView();
+		});
 	}
 
 	
 	async deleteFile(file: TFile) {
 		const message = `Are you sure you want to delete "${file.name}"?`;
 		new ConfirmModal(this.app, message, async () => {
-			const folder = file.parent;
 			try {
-				
-				if (this.isItemPinned(file.path)) {
-					this.plugin.settings.pinnedItems = this.plugin.settings.pinnedItems.filter(
-						(item) => item !== file.path
-					);
-					await this.plugin.saveSettings();
-				}
 				await this.app.vault.delete(file);
 				new Notice(`File deleted: ${file.name}`);
-				
-				if (this.plugin.settings.createIndexFile && folder) {
-					await this.plugin.updateIndexFileContent(folder);
-				}
 				this.refreshView();
 			} catch (error) {
 				new Notice(`Error deleting file: ${error}`);
@@ -1231,7 +2788,19 @@ class ZenSpaceView extends ItemView {
 			if (a instanceof TFolder && !(b instanceof TFolder)) return -1;
 			if (!(a instanceof TFolder) && b instanceof TFolder) return 1;
 			let comparison = 0;
-			if (this.currentSortBy === "filename") {
+			if (this.currentSortBy === "custom") {
+				return this.plugin.getCustomOrderRank(a) - this.plugin.getCustomOrderRank(b) ||
+					naturalCompare(a.name, b.name);
+			} else if (this.currentSortBy === "property") {
+				const aValue = a instanceof TFile ? getPropertyValue(this.app, a, this.currentSortProperty) : undefined;
+				const bValue = b instanceof TFile ? getPropertyValue(this.app, b, this.currentSortProperty) : undefined;
+				// Items without the property stay at the bottom in either direction
+				if (isEmptyValue(aValue) || isEmptyValue(bValue)) {
+					return Number(isEmptyValue(aValue)) - Number(isEmptyValue(bValue)) ||
+						naturalCompare(a.name, b.name);
+				}
+				comparison = comparePropertyValues(aValue, bValue) || naturalCompare(a.name, b.name);
+			} else if (this.currentSortBy === "filename") {
 				comparison = naturalCompare(a.name, b.name);
 			} else if (a instanceof TFile && b instanceof TFile) {
 				comparison = this.getFileTime(a, this.currentSortBy) - this.getFileTime(b, this.currentSortBy);
@@ -1247,7 +2816,7 @@ class ZenSpaceView extends ItemView {
 		}
 		this.folderHistory.push(folder);
 		this.historyIndex = this.folderHistory.length - 1;
-		this.plugin.openInZenSpace(folder);
+		this.plugin.openInZenSpace(folder, { leaf: this.leaf, keepSpace: true });
 	}
 
 	registerFileEvents() {
@@ -1261,30 +2830,8 @@ class ZenSpaceView extends ItemView {
 
 		this.registerEvent(
 			this.app.vault.on("delete", (file) => {
-				const parentFolder = file.parent;
-				
-				if (file instanceof TFile && file.extension === "md") {
-					if (parentFolder) {
-						setTimeout(() => {
-							this.plugin.updateIndexFileContent(parentFolder as TFolder);
-							if (this.plugin.settings.createBaseFile) {
-								this.plugin.baseFileCreator.updateBaseFileContent(parentFolder as TFolder);
-							}
-						}, 0);
-					}
-
-					let currentFolder = parentFolder;
-					while (currentFolder && currentFolder !== this.app.vault.getRoot()) {
-						if (this.plugin.settings.includeSubfolders) {
-							setTimeout(() => {
-								this.plugin.updateIndexFileContent(currentFolder as TFolder);
-								if (this.plugin.settings.createBaseFile) {
-									this.plugin.baseFileCreator.updateBaseFileContent(currentFolder as TFolder);
-								}
-							}, 0);
-						}
-						currentFolder = currentFolder.parent;
-					}
+				if (this.isPathInCurrentFolder(file.path)) {
+					this.refreshView();
 				}
 			})
 		);
@@ -1310,10 +2857,21 @@ class ZenSpaceView extends ItemView {
 				}
 			})
 		);
+
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				if (
+					this.isInCurrentFolder(file) &&
+					(this.currentSortBy === "property" || this.currentGroupBy)
+				) {
+					this.refreshView();
+				}
+			})
+		);
 	}
 
 	isInCurrentFolder(file: TAbstractFile): boolean {
-		if (!this.plugin.settings.includeSubfolders) {
+		if (!this.plugin.getFolderSettings(this.folder).includeSubfolders) {
 			return file.parent === this.folder;
 		}
 
@@ -1325,7 +2883,7 @@ class ZenSpaceView extends ItemView {
 	}
 
 	isPathInCurrentFolder(path: string): boolean {
-		if (!this.plugin.settings.includeSubfolders) {
+		if (!this.plugin.getFolderSettings(this.folder).includeSubfolders) {
 			return (
 				path.startsWith(this.folder.path + "/") &&
 				!path.substring(this.folder.path.length + 1).includes("/")
@@ -1337,19 +2895,28 @@ class ZenSpaceView extends ItemView {
 }
 
 
+interface FolderNameModalOptions {
+	defaultValue?: string;
+	submitText?: string;
+	validate?: (value: string) => string | null;
+}
+
 class FolderNameModal extends Modal {
 	result: string | null = null;
 	onSubmit: (result: string | null) => void;
 	promptText: string;
+	options: FolderNameModalOptions;
 
 	constructor(
 		app: App,
 		promptText: string,
-		onSubmit: (result: string | null) => void
+		onSubmit: (result: string | null) => void,
+		options: FolderNameModalOptions = {}
 	) {
 		super(app);
 		this.promptText = promptText;
 		this.onSubmit = onSubmit;
+		this.options = options;
 	}
 
 	onOpen() {
@@ -1364,14 +2931,20 @@ class FolderNameModal extends Modal {
 			type: "text",
 			cls: "zen-space-modal-input",
 		});
+		folderNameInput.value = this.options.defaultValue ?? "";
 		folderNameInput.focus();
+		folderNameInput.select();
+
+		const errorEl = contentEl.createEl("div", {
+			cls: "zen-space-modal-error",
+		});
 
 		const buttonContainer = contentEl.createEl("div", {
 			cls: "zen-space-modal-button-container",
 		});
 
 		const submitButton = buttonContainer.createEl("button", {
-			text: "Create",
+			text: this.options.submitText ?? "Create",
 			cls: "mod-cta",
 		});
 
@@ -1379,18 +2952,28 @@ class FolderNameModal extends Modal {
 			text: "Cancel",
 		});
 
+		const submit = () => {
+			const error = this.options.validate?.(folderNameInput.value) ?? null;
+			if (error) {
+				errorEl.setText(error);
+				return;
+			}
+			this.result = folderNameInput.value;
+			this.close();
+		};
+
 		
+		folderNameInput.addEventListener("input", () => {
+			errorEl.setText("");
+		});
+
 		folderNameInput.addEventListener("keydown", (e) => {
 			if (e.key === "Enter") {
-				this.result = folderNameInput.value;
-				this.close();
+				submit();
 			}
 		});
 
-		submitButton.addEventListener("click", () => {
-			this.result = folderNameInput.value;
-			this.close();
-		});
+		submitButton.addEventListener("click", submit);
 
 		cancelButton.addEventListener("click", () => {
 			this.close();
@@ -1405,28 +2988,465 @@ class FolderNameModal extends Modal {
 }
 
 
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	private items: TAbstractFile[];
+	private onChoose: (folder: TFolder | null) => void;
+	private chosen: TFolder | null = null;
+
+	constructor(
+		app: App,
+		items: TAbstractFile[],
+		onChoose: (folder: TFolder | null) => void,
+		placeholder = "Move to folder..."
+	) {
+		super(app);
+		this.items = items;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault.getAllLoadedFiles().filter((file): file is TFolder => {
+			if (!(file instanceof TFolder)) return false;
+			if (this.items.length === 1 && file === this.items[0].parent) return false;
+			return !this.items.some((item) =>
+				item instanceof TFolder && (file === item || file.path.startsWith(item.path + "/"))
+			);
+		});
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? "/" : folder.path;
+	}
+
+	onChooseItem(folder: TFolder): void {
+		this.chosen = folder;
+	}
+
+	onClose() {
+		super.onClose();
+		// onChooseItem runs after close, so resolve on the next tick
+		setTimeout(() => this.onChoose(this.chosen), 0);
+	}
+}
+
+
 class ConfirmModal extends Modal {
 	private message: string;
 	private onConfirm: () => void;
 
-	constructor(app: App, message: string, onConfirm: () => void) {
-		super(app);
-		this.message = message;
-		this.onConfirm = onConfirm;
-	}
+	constructor(app: App, message: string, onConfirm: () => void) {
+		super(app);
+		this.message = message;
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: 'Confirm Deletion' });
+		contentEl.createEl('p', { text: this.message });
+		const buttonContainer = contentEl.createEl('div', { cls: 'zen-space-modal-button-container' });
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.addEventListener('click', () => this.close());
+		const confirmButton = buttonContainer.createEl('button', { text: 'Delete' });
+		confirmButton.addEventListener('click', () => {
+			this.onConfirm();
+			this.close();
+		});
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class LongformCheckModal extends Modal {
+	private indexFile: TFile;
+	private result: LongformCheckResult;
+
+	constructor(app: App, indexFile: TFile, result: LongformCheckResult) {
+		super(app);
+		this.indexFile = indexFile;
+		this.result = result;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const { missing, unlisted } = this.result;
+		contentEl.createEl('h2', { text: `Compile-ready check: ${this.indexFile.basename}` });
+
+		if (missing.length === 0 && unlisted.length === 0) {
+			contentEl.createEl('p', { text: 'Every scene exists, and every note in the scene folder is in the scenes list.' });
+			return;
+		}
+		this.renderList('Scenes missing from disk', missing);
+		this.renderList('Notes not in the scenes list', unlisted);
+	}
+
+	private renderList(title: string, titles: string[]) {
+		if (titles.length === 0) {
+			return;
+		}
+		this.contentEl.createEl('h3', { text: `${title} (${titles.length})` });
+		const list = this.contentEl.createEl('ul');
+		titles.forEach((entry) => list.createEl('li', { text: entry }));
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class ScopedFileSuggestModal extends FuzzySuggestModal<TFile> {
+	private roots: string[];
+
+	constructor(app: App, roots: string[]) {
+		super(app);
+		this.roots = roots;
+		this.setPlaceholder("Find a file in this Zen Space...");
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getFiles().filter((file) => isInFocus(file.path, this.roots));
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile, evt: MouseEvent | KeyboardEvent): void {
+		this.app.workspace.getLeaf(Keymap.isModEvent(evt)).openFile(file);
+	}
+}
+
+class SpaceSuggestModal extends FuzzySuggestModal<SavedSpace> {
+	private plugin: ZenSpacePlugin;
+
+	constructor(app: App, plugin: ZenSpacePlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.setPlaceholder("Switch to space...");
+	}
+
+	getItems(): SavedSpace[] {
+		return this.plugin.settings.savedSpaces;
+	}
+
+	getItemText(space: SavedSpace): string {
+		return space.name;
+	}
+
+	onChooseItem(space: SavedSpace): void {
+		this.plugin.openSpace(space);
+	}
+}
+
+class SpaceEditModal extends Modal {
+	private plugin: ZenSpacePlugin;
+	private space: SavedSpace;
+	private previousName: string | null;
+	private tabsMode: "keep" | "current" | "none";
+	private onSave?: () => void;
+
+	constructor(app: App, plugin: ZenSpacePlugin, space: SavedSpace, previousName: string | null, onSave?: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.space = { ...space };
+		this.previousName = previousName;
+		this.tabsMode = space.tabs.length > 0 ? "keep" : "none";
+		this.onSave = onSave;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: this.previousName ? `Edit space: ${this.previousName}` : "New space" });
+
+		new Setting(contentEl)
+			.setName("Name")
+			.addText((text) =>
+				text
+					.setPlaceholder("Thesis")
+					.setValue(this.space.name)
+					.onChange((value) => {
+						this.space.name = value.trim();
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Folders")
+			.setDesc("One folder path per line. The first one opens when switching to the space.")
+			.addTextArea((text) =>
+				text
+					.setValue(this.space.folders.join("\n"))
+					.onChange((value) => {
+						this.space.folders = value
+							.split("\n")
+							.map((line) => line.trim())
+							.filter((line) => line.length > 0)
+							.map((line) => normalizePath(line));
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Exclude patterns")
+			.setDesc("Hidden in this space, on top of the folder settings")
+			.addTextArea((text) =>
+				text
+					.setValue(this.space.excludePatterns.join("\n"))
+					.onChange((value) => {
+						this.space.excludePatterns = parseRuleList(value);
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Include patterns")
+			.setDesc("When set, only matching files are shown in this space")
+			.addTextArea((text) =>
+				text
+					.setValue(this.space.includePatterns.join("\n"))
+					.onChange((value) => {
+						this.space.includePatterns = parseRuleList(value);
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Sort")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("filename", "File Name")
+					.addOption("created", "Creation Date")
+					.addOption("modified", "Modified Date")
+					.addOption("custom", "Custom Order")
+					.addOption("property", "Property")
+					.setValue(this.space.sortBy)
+					.onChange((value: ZenSpaceSortBy) => {
+						this.space.sortBy = value;
+					})
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("asc", "Ascending")
+					.addOption("desc", "Descending")
+					.setValue(this.space.sortOrder)
+					.onChange((value: "asc" | "desc") => {
+						this.space.sortOrder = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Tabs")
+			.setDesc("Files to reopen in tabs when switching to this space")
+			.addDropdown((dropdown) => {
+				if (this.space.tabs.length > 0) {
+					dropdown.addOption("keep", `Keep saved tabs (${this.space.tabs.length})`);
+				}
+				dropdown
+					.addOption("current", `Use tabs open now (${this.plugin.getOpenTabPaths().length})`)
+					.addOption("none", "Don't restore tabs")
+					.setValue(this.tabsMode)
+					.onChange((value: "keep" | "current" | "none") => {
+						this.tabsMode = value;
+					});
+			});
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Cancel").onClick(() => this.close())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Save")
+					.setCta()
+					.onClick(async () => {
+						const error = this.validate();
+						if (error) {
+							new Notice(error);
+							return;
+						}
+						if (this.tabsMode !== "keep") {
+							this.space.tabs = this.tabsMode === "current" ? this.plugin.getOpenTabPaths() : [];
+						}
+						await this.plugin.saveSpace(this.space, this.previousName);
+						this.onSave?.();
+						this.close();
+					})
+			);
+	}
+
+	private validate(): string | null {
+		if (!this.space.name) {
+			return "Space name cannot be empty";
+		}
+		const taken = this.plugin.settings.savedSpaces.some(
+			(space) => space.name === this.space.name && space.name !== this.previousName
+		);
+		if (taken) {
+			return `A space named "${this.space.name}" already exists`;
+		}
+		if (!this.space.folders.some((path) => this.app.vault.getAbstractFileByPath(path) instanceof TFolder)) {
+			return "Add at least one existing folder";
+		}
+		return null;
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+class FolderSettingsModal extends Modal {
+	private plugin: ZenSpacePlugin;
+	private folder: TFolder;
+	private override: FolderSettingsOverride;
+
+	constructor(app: App, plugin: ZenSpacePlugin, folder: TFolder) {
+		super(app);
+		this.plugin = plugin;
+		this.folder = folder;
+		this.override = { ...plugin.settings.folderSettings[folder.path] };
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl("h2", { text: `Folder settings: ${this.folder.isRoot() ? "/" : this.folder.name}` });
+		contentEl.createEl("p", {
+			text: "Settings left on \"Inherit\" follow the parent folder, or the plugin settings at the top of the tree.",
+			cls: "setting-item-description",
+		});
+
+		const inherited = this.folder.parent
+			? this.plugin.getFolderSettings(this.folder.parent)
+			: this.plugin.settings;
+
+		const choices: Record<string, string> = {
+			filename: "File Name",
+			created: "Creation Date",
+			modified: "Modified Date",
+			custom: "Custom Order",
+			property: "Property",
+			...INDEX_STYLE_NAMES,
+			asc: "Ascending",
+			desc: "Descending",
+			true: "On",
+			false: "Off",
+		};
+		const rows: { key: FolderSettingKey; name: string; options: string[] }[] = [
+			{ key: "defaultSortBy", name: "Sort by", options: ["filename", "created", "modified", "custom", "property"] },
+			{ key: "defaultSortOrder", name: "Sort order", options: ["asc", "desc"] },
+			{ key: "includeSubfolders", name: "Include subfolders", options: ["true", "false"] },
+			{ key: "includeCanvasFiles", name: "Include canvas files", options: ["true", "false"] },
+			{ key: "includeOtherFormats", name: "Include other formats", options: ["true", "false"] },
+			{ key: "hideFileExtensions", name: "Hide file extensions", options: ["true", "false"] },
+			{ key: "createIndexFile", name: "Create index file", options: ["true", "false"] },
+			{ key: "useLongformTemplate", name: "Use Longform template", options: ["true", "false"] },
+			{ key: "useGridLayoutForIndex", name: "Grid layout for index", options: ["true", "false"] },
+			{ key: "indexFolderStats", name: "Folder stats in index", options: ["true", "false"] },
+			{ key: "indexSummaryBlock", name: "Summary block in index", options: ["true", "false"] },
+			{ key: "indexOutputStyle", name: "Index style", options: Object.keys(INDEX_STYLE_NAMES) },
+			{ key: "indexIncludeCanvas", name: "Canvas files in index", options: ["true", "false"] },
+			{ key: "indexIncludeAttachments", name: "Attachments in index", options: ["true", "false"] },
+		];
+
+		const textRows: { key: "defaultSortProperty" | "groupByProperty" | "longformWorkflow" | "longformSceneFolder"; name: string }[] = [
+			{ key: "defaultSortProperty", name: "Sort property" },
+			{ key: "groupByProperty", name: "Group by property" },
+			{ key: "longformWorkflow", name: "Longform workflow" },
+			{ key: "longformSceneFolder", name: "Longform scene folder" },
+		];
+		const listRows: { key: "includePatterns" | "excludePatterns" | "includeExtensions" | "excludeExtensions" | "baseColumns"; name: string; desc?: string }[] = [
+			{ key: "excludePatterns", name: "Exclude patterns" },
+			{ key: "includePatterns", name: "Include patterns" },
+			{ key: "includeExtensions", name: "Only these extensions" },
+			{ key: "excludeExtensions", name: "Exclude extensions" },
+			{
+				key: "baseColumns",
+				name: "Database columns",
+				desc: `Properties in this folder: ${collectPropertyKeys(
+					this.app,
+					this.folder.children.filter((child): child is TFile => child instanceof TFile)
+				).join(", ") || "none"}`,
+			},
+		];
+
+		for (const row of rows) {
+			new Setting(contentEl)
+				.setName(row.name)
+				.addDropdown((dropdown) => {
+					dropdown.addOption("", `Inherit (${choices[String(inherited[row.key])]})`);
+					row.options.forEach((option) => dropdown.addOption(option, choices[option]));
+					const current = this.override[row.key];
+					dropdown.setValue(current === undefined ? "" : String(current));
+					dropdown.onChange((value) => {
+						if (value === "") {
+							delete this.override[row.key];
+						} else if (value === "true" || value === "false") {
+							(this.override as Record<string, unknown>)[row.key] = value === "true";
+						} else {
+							(this.override as Record<string, unknown>)[row.key] = value;
+						}
+					});
+				});
+		}
+
+		for (const row of textRows) {
+			new Setting(contentEl)
+				.setName(row.name)
+				.addText((text) => {
+					text.setPlaceholder(`Inherit (${inherited[row.key] || "none"})`);
+					text.setValue(this.override[row.key] ?? "");
+					text.onChange((value) => {
+						if (value.trim() === "") {
+							delete this.override[row.key];
+						} else {
+							this.override[row.key] = value.trim();
+						}
+					});
+				});
+		}
+
+		for (const row of listRows) {
+			new Setting(contentEl)
+				.setName(row.name)
+				.setDesc(row.desc ?? "")
+				.addTextArea((text) => {
+					text.setPlaceholder(`Inherit (${inherited[row.key].join(", ") || "none"})`);
+					text.setValue((this.override[row.key] ?? []).join("\n"));
+					text.onChange((value) => {
+						const entries = parseRuleList(value);
+						if (entries.length === 0) {
+							delete this.override[row.key];
+						} else {
+							this.override[row.key] = entries;
+						}
+					});
+				});
+		}
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.createEl('h2', { text: 'Confirm Deletion' });
-		contentEl.createEl('p', { text: this.message });
-		const buttonContainer = contentEl.createEl('div', { cls: 'zen-space-modal-button-container' });
-		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
-		cancelButton.addEventListener('click', () => this.close());
-		const confirmButton = buttonContainer.createEl('button', { text: 'Delete' });
-		confirmButton.addEventListener('click', () => {
-			this.onConfirm();
-			this.close();
-		});
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Reset to inherited").onClick(() => {
+					this.override = {};
+					this.render();
+				})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Save")
+					.setCta()
+					.onClick(async () => {
+						await this.plugin.setFolderSettings(this.folder, this.override);
+						this.close();
+					})
+			);
 	}
 
 	onClose() {
@@ -1439,17 +3459,39 @@ export default class ZenSpacePlugin extends Plugin {
 	settings: ZenSpaceSettings;
 	ribbonIcon: HTMLElement | null = null;
 	public baseFileCreator: BaseFileCreator;
+	public indexUpdateQueue: IndexUpdateQueue;
+	private lastZenSpaceLeaf: WorkspaceLeaf | null = null;
+	private fileFilterCache: Map<string, FileFilter> = new Map();
+	private baseLeaf: WorkspaceLeaf | null = null;
+	private focusMode: FocusMode;
+	private explorer: ExplorerIntegration;
+	private missingTemplateWarned: string | null = null;
 
 	
 	public getActiveZenSpaceView(): ZenSpaceView | null {
+		const leaf = this.getPreferredZenSpaceLeaf();
+		return leaf && leaf.view instanceof ZenSpaceView ? leaf.view : null;
+	}
+
+	
+	public getZenSpaceViews(): ZenSpaceView[] {
+		return this.app.workspace
+			.getLeavesOfType(ZEN_SPACE_VIEW_TYPE)
+			.map((leaf) => leaf.view)
+			.filter((view): view is ZenSpaceView => view instanceof ZenSpaceView);
+	}
+
+	public refreshZenSpaceViews(fullRefresh = false) {
+		this.getZenSpaceViews().forEach((view) => view.refreshView(fullRefresh));
+	}
+
+	
+	private getPreferredZenSpaceLeaf(): WorkspaceLeaf | null {
 		const leaves = this.app.workspace.getLeavesOfType(ZEN_SPACE_VIEW_TYPE);
-		if (leaves.length > 0) {
-			const view = leaves[0].view;
-			if (view instanceof ZenSpaceView) {
-				return view;
-			}
+		if (this.lastZenSpaceLeaf && leaves.includes(this.lastZenSpaceLeaf)) {
+			return this.lastZenSpaceLeaf;
 		}
-		return null;
+		return leaves[0] ?? null;
 	}
 
 	async onload() {
@@ -1460,7 +3502,17 @@ export default class ZenSpacePlugin extends Plugin {
 		
 		
 		this.updateGridLayoutClasses();
-		this.baseFileCreator = new BaseFileCreator(this.app);
+		this.baseFileCreator = new BaseFileCreator(this.app, {
+			get: (folder) => this.settings.baseFileFilters[folder.path],
+			set: (folder, filters) => {
+				const previous = this.settings.baseFileFilters[folder.path];
+				if (JSON.stringify(previous) === JSON.stringify(filters)) return;
+				this.settings.baseFileFilters[folder.path] = filters;
+				this.saveSettings();
+			},
+		});
+		this.indexUpdateQueue = new IndexUpdateQueue(this.app, (folder) => this.refreshFolderIndexes(folder));
+		this.register(() => this.indexUpdateQueue.clear());
 
 		
 		this.registerView(ZEN_SPACE_VIEW_TYPE, (leaf: WorkspaceLeaf) => {
@@ -1475,6 +3527,10 @@ export default class ZenSpacePlugin extends Plugin {
 			"target",
 			"Open Zen Space",
 			async (evt) => {
+				if (this.settings.savedSpaces.length > 0) {
+					this.showSpaceMenu(evt);
+					return;
+				}
 				await this.openInZenSpace(this.app.vault.getRoot());
 			}
 		);
@@ -1493,55 +3549,66 @@ export default class ZenSpacePlugin extends Plugin {
 								await this.openInZenSpace(file);
 							});
 					});
+					menu.addItem((item) => {
+						item.setTitle("Open in new Zen Space")
+							.setIcon("target")
+							.onClick(async () => {
+								await this.openInZenSpace(file, { newLeaf: true });
+							});
+					});
 				}
 			})
 		);
 
 		
-		this.registerIndexFileUpdateEvents();
-
-		
-		this.registerInterval(
-			window.setInterval(() => {
-				this.addZenSpaceButtons();
-			}, 1000)
-		);
-
-		
-		const fileExplorer = document.querySelector(".nav-files-container");
-		if (fileExplorer) {
-			const observer = new MutationObserver(() => {
-				setTimeout(() => this.addZenSpaceButtons(), 100);
-			});
-			observer.observe(fileExplorer, { childList: true, subtree: true });
-			this.register(() => observer.disconnect());
-		}
-
-		
 		this.registerEvent(
-			this.app.vault.on("create", (file) => {
-				setTimeout(() => this.addZenSpaceButtons(), 100);
-			})
-		);
-
-		this.registerEvent(
-			this.app.vault.on("rename", (file) => {
-				setTimeout(() => this.addZenSpaceButtons(), 100);
+			this.app.workspace.on("active-leaf-change", (leaf) => {
+				if (leaf && leaf.view instanceof ZenSpaceView) {
+					this.lastZenSpaceLeaf = leaf;
+					this.updateFocusMode();
+				}
 			})
 		);
 
 		
-		this.setupMutationObserver();
+		this.focusMode = new FocusMode(this.app);
+		this.register(() => this.focusMode.lift());
+		this.registerEvent(this.app.workspace.on("layout-change", () => this.updateFocusMode()));
+		this.app.workspace.onLayoutReady(() => this.updateFocusMode());
 
 		
-		for (const delay of [100, 300, 500, 1000, 2000]) {
-			setTimeout(() => {
-				this.addZenSpaceButtons();
-			}, delay);
-		}
+		this.registerIndexFileUpdateEvents();
 
 		
-		this.addZenSpaceButtons();
+		this.explorer = new ExplorerIntegration(this.app, {
+			getDecorations: () => ({
+				button: this.settings.explorerButton,
+				indexBadge: this.settings.explorerIndexBadge,
+				noteCount: this.settings.explorerNoteCount,
+			}),
+			openFolder: (folder) => this.openInZenSpace(folder),
+			hasIndexFile: (folder) => this.getIndexFile(folder) !== null && this.getFolderSettings(folder).createIndexFile,
+			countNotes: (folder) => folder.children.filter((child) =>
+				child instanceof TFile && child.extension === "md" && !this.isIndexFile(child)
+			).length,
+			onRender: (root) => this.focusMode.decorate(root),
+		});
+		this.register(() => this.explorer.destroy());
+		this.app.workspace.onLayoutReady(() => this.explorer.attach());
+		this.registerEvent(this.app.workspace.on("layout-change", () => this.explorer.attach()));
+
+		// A file changes the note count of its folder, and an index file the badge of its folder
+		const refreshRows = (path: string) => {
+			this.explorer.refreshFolders([parentPathOf(path), path.replace(/\.md$/, "")]);
+		};
+		this.registerEvent(this.app.vault.on("create", (file) => refreshRows(file.path)));
+		this.registerEvent(this.app.vault.on("delete", (file) => refreshRows(file.path)));
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				refreshRows(oldPath);
+				refreshRows(file.path);
+			})
+		);
 	}
 
 	async loadSettings() {
@@ -1553,9 +3620,328 @@ export default class ZenSpacePlugin extends Plugin {
 	}
 
 	async saveSettings() {
+		this.fileFilterCache.clear();
 		await this.saveData(this.settings);
 		this.updateGridLayoutClasses();
 	}
+
+	/** Re-decorates the file explorer; only needed after settings that change its decorations. */
+	refreshExplorer() {
+		this.explorer.refresh();
+	}
+
+	/**
+	 * Global settings with the overrides of every folder from the vault root
+	 * down to `folder` applied on top, so nearer folders win.
+	 */
+	getFolderSettings(folder: TFolder | string): ZenSpaceSettings {
+		const path = typeof folder === "string" ? folder : folder.path;
+		const effective: ZenSpaceSettings = { ...this.settings };
+		const paths = ["/"];
+		if (path && path !== "/") {
+			const segments = path.split("/");
+			segments.forEach((_, i) => paths.push(segments.slice(0, i + 1).join("/")));
+		}
+
+		for (const ancestor of paths) {
+			const override = this.settings.folderSettings[ancestor];
+			if (override) {
+				Object.assign(effective, override);
+			}
+		}
+		return effective;
+	}
+
+	async setFolderSettings(folder: TFolder, override: FolderSettingsOverride) {
+		const changesIndexFiles = this.settings.folderSettings[folder.path]?.createIndexFile !== override.createIndexFile;
+		if (Object.keys(override).length === 0) {
+			delete this.settings.folderSettings[folder.path];
+		} else {
+			this.settings.folderSettings[folder.path] = override;
+		}
+		await this.saveSettings();
+		if (changesIndexFiles) {
+			this.refreshExplorer();
+		}
+
+		this.getZenSpaceViews().forEach((view) => {
+			view.applyFolderSort();
+			view.refreshView(true);
+		});
+		this.indexUpdateQueue.enqueue(folder, true);
+	}
+
+	/** Position of `item` in its folder's custom order; unordered items sort last. */
+	getCustomOrderRank(item: TAbstractFile): number {
+		const order = item.parent ? this.settings.customOrder[item.parent.path] : undefined;
+		const index = order ? order.indexOf(item.name) : -1;
+		return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+	}
+
+	async setCustomOrder(folder: TFolder, names: string[]) {
+		this.settings.customOrder[folder.path] = names;
+		await this.saveSettings();
+		this.refreshZenSpaceViews();
+		this.indexUpdateQueue.enqueue(folder, true);
+	}
+
+	private async updateCustomOrderEntry(oldPath: string, newPath: string | null) {
+		const order = this.settings.customOrder[parentPathOf(oldPath)];
+		const oldName = oldPath.substring(oldPath.lastIndexOf("/") + 1);
+		const index = order ? order.indexOf(oldName) : -1;
+		if (index === -1) return;
+
+		// A rename in place keeps its slot; anything that leaves the folder drops out
+		if (newPath !== null && parentPathOf(newPath) === parentPathOf(oldPath)) {
+			order[index] = newPath.substring(newPath.lastIndexOf("/") + 1);
+		} else {
+			order.splice(index, 1);
+		}
+		await this.saveSettings();
+	}
+
+	/**
+	 * Include/exclude rules in effect for the children of `folder`, with
+	 * relative patterns resolved against `root`, the Zen Space being shown.
+	 */
+	getFileFilter(folder: TFolder, root: TFolder = folder): FileFilter {
+		const key = `${folder.path}|${root.path}`;
+		let filter = this.fileFilterCache.get(key);
+		if (!filter) {
+			filter = new FileFilter(this.getFolderSettings(folder), root.path);
+			this.fileFilterCache.set(key, filter);
+		}
+		return filter;
+	}
+
+	/**
+	 * Space rules for `item`, with relative patterns resolved against the space
+	 * root it is in, whichever folder of the space is open. They narrow the
+	 * folder's own rules rather than replacing them.
+	 */
+	getSpaceFilter(space: SavedSpace, item: TAbstractFile): FileFilter {
+		const root = space.folders
+			.filter((path) => path === "/" || item.path === path || item.path.startsWith(path + "/"))
+			.reduce((nearest, path) => (path.length > nearest.length ? path : nearest), "/");
+		const key = `space:${space.name}|${root}`;
+		let filter = this.fileFilterCache.get(key);
+		if (!filter) {
+			filter = new FileFilter({
+				includeSubfolders: true,
+				includeCanvasFiles: true,
+				includeOtherFormats: true,
+				includePatterns: space.includePatterns,
+				excludePatterns: space.excludePatterns,
+				includeExtensions: [],
+				excludeExtensions: [],
+			}, root);
+			this.fileFilterCache.set(key, filter);
+		}
+		return filter;
+	}
+
+	getBaseFileOptions(folder: TFolder): BaseFileOptions {
+		const settings = this.getFolderSettings(folder);
+		return {
+			columns: settings.baseColumns,
+			views: settings.baseViews,
+			includeSubfolders: settings.baseIncludeSubfolders,
+			tags: settings.baseTags,
+			filter: this.getFileFilter(folder),
+		};
+	}
+
+	// Runs for every rename and delete, so pins and spaces survive changes made outside Zen Space too
+	private async updateSavedPaths(oldPath: string, newPath: string | null) {
+		let changed = false;
+		const remap = (paths: string[]) => {
+			const updated = remapPaths(paths, oldPath, newPath);
+			if (updated.length !== paths.length || updated.some((path, index) => path !== paths[index])) {
+				changed = true;
+			}
+			return updated;
+		};
+
+		this.settings.pinnedItems = remap(this.settings.pinnedItems);
+		for (const space of this.settings.savedSpaces) {
+			space.folders = remap(space.folders);
+			space.pinnedItems = remap(space.pinnedItems);
+			space.tabs = remap(space.tabs);
+		}
+		if (!changed) {
+			return;
+		}
+
+		await this.saveSettings();
+		this.refreshZenSpaceViews();
+	}
+
+	// The folders of the Zen Space the user last worked in, or null when none is open
+	getFocusRoots(): string[] | null {
+		// Leaves in background tabs stay deferred until shown, so their saved state is read instead
+		const leaves: WorkspaceLeaf[] = [];
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			if (leaf.getViewState().type === ZEN_SPACE_VIEW_TYPE) leaves.push(leaf);
+		});
+		const leaf = this.lastZenSpaceLeaf && leaves.includes(this.lastZenSpaceLeaf) ? this.lastZenSpaceLeaf : leaves[0];
+		if (!leaf) {
+			return null;
+		}
+
+		let space: SavedSpace | null;
+		let folderPath: string;
+		if (leaf.view instanceof ZenSpaceView) {
+			space = leaf.view.getSpace();
+			folderPath = leaf.view.folder.path;
+		} else {
+			const state = leaf.getViewState().state ?? {};
+			space = this.getSavedSpace(typeof state.space === "string" ? state.space : null);
+			folderPath = typeof state.folder === "string" ? state.folder : "/";
+		}
+		const spaceRoots = (space?.folders ?? [])
+			.filter((path) => this.app.vault.getAbstractFileByPath(path) instanceof TFolder);
+		return spaceRoots.length > 0 ? spaceRoots : [folderPath];
+	}
+
+	updateFocusMode() {
+		if (!this.focusMode || !this.app.workspace.layoutReady) {
+			return;
+		}
+		const roots = this.settings.focusMode ? this.getFocusRoots() : null;
+		if (!roots) {
+			// Without a Zen Space there is nothing to focus on; the setting waits for the next one
+			if (this.focusMode.active) {
+				this.focusMode.lift();
+			}
+			return;
+		}
+		this.focusMode.apply(roots, this.settings.focusModeStyle, this.settings.focusScopeSearch);
+	}
+
+	async setFocusMode(enabled: boolean) {
+		this.settings.focusMode = enabled;
+		await this.saveSettings();
+		this.updateFocusMode();
+	}
+
+	getSavedSpace(name: string | null): SavedSpace | null {
+		return name === null ? null : this.settings.savedSpaces.find((space) => space.name === name) ?? null;
+	}
+
+	// A space keeps its own pins; outside of spaces the vault-wide list is used
+	getPinnedItems(spaceName: string | null): string[] {
+		return this.getSavedSpace(spaceName)?.pinnedItems ?? this.settings.pinnedItems;
+	}
+
+	async setPinnedItems(spaceName: string | null, paths: string[]) {
+		const space = this.getSavedSpace(spaceName);
+		if (space) {
+			space.pinnedItems = paths;
+		} else {
+			this.settings.pinnedItems = paths;
+		}
+		await this.saveSettings();
+	}
+
+	async saveSpace(space: SavedSpace, previousName: string | null = null) {
+		const index = this.settings.savedSpaces.findIndex((entry) => entry.name === (previousName ?? space.name));
+		if (index === -1) {
+			this.settings.savedSpaces.push(space);
+		} else {
+			this.settings.savedSpaces[index] = space;
+		}
+		await this.saveSettings();
+
+		this.getZenSpaceViews().forEach((view) => {
+			if (previousName !== null && view.spaceName === previousName) {
+				view.spaceName = space.name;
+			}
+		});
+		this.refreshZenSpaceViews();
+	}
+
+	async deleteSpace(name: string) {
+		this.settings.savedSpaces = this.settings.savedSpaces.filter((space) => space.name !== name);
+		await this.saveSettings();
+
+		this.getZenSpaceViews().forEach((view) => {
+			if (view.spaceName === name) {
+				view.spaceName = null;
+				view.refreshView(true);
+			}
+		});
+	}
+
+	async openSpace(space: SavedSpace) {
+		const folder = space.folders
+			.map((path) => this.app.vault.getAbstractFileByPath(path))
+			.find((file): file is TFolder => file instanceof TFolder);
+		if (!folder) {
+			new Notice(`None of the folders of "${space.name}" exist anymore`);
+			return;
+		}
+
+		await this.openInZenSpace(folder, { space });
+
+		const openTabs = this.getOpenTabPaths();
+		for (const path of space.tabs) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile && !openTabs.includes(path)) {
+				await this.app.workspace.getLeaf("tab").openFile(file);
+			}
+		}
+	}
+
+	getOpenTabPaths(): string[] {
+		const paths: string[] = [];
+		this.app.workspace.iterateRootLeaves((leaf) => {
+			const path = leaf.getViewState().state?.file;
+			if (typeof path === "string" && !paths.includes(path)) {
+				paths.push(path);
+			}
+		});
+		return paths;
+	}
+
+	showSpaceMenu(evt: MouseEvent) {
+		const menu = new Menu();
+		this.settings.savedSpaces.forEach((space) => {
+			menu.addItem((item) =>
+				item.setTitle(space.name)
+					.setIcon("layers")
+					.onClick(() => this.openSpace(space))
+			);
+		});
+		menu.addSeparator();
+		menu.addItem((item) =>
+			item.setTitle("Open vault root")
+				.setIcon("target")
+				.onClick(() => this.openInZenSpace(this.app.vault.getRoot()))
+		);
+		menu.showAtMouseEvent(evt);
+	}
+
+	private async remapFolderKeyedSettings(oldPath: string, newPath: string) {
+		const remap = <T>(record: Record<string, T>): Record<string, T> => {
+			const result: Record<string, T> = {};
+			for (const [path, value] of Object.entries(record)) {
+				if (path === oldPath) {
+					result[newPath] = value;
+				} else if (path.startsWith(oldPath + "/")) {
+					result[newPath + path.substring(oldPath.length)] = value;
+				} else {
+					result[path] = value;
+				}
+			}
+			return result;
+		};
+
+		this.settings.folderSettings = remap(this.settings.folderSettings);
+		this.settings.folderViewModes = remap(this.settings.folderViewModes);
+		this.settings.customOrder = remap(this.settings.customOrder);
+		this.settings.baseFileFilters = remap(this.settings.baseFileFilters);
+		await this.saveSettings();
+	}
 	
 	
 	updateGridLayoutClasses() {
@@ -1573,325 +3959,536 @@ export default class ZenSpacePlugin extends Plugin {
 		}
 	}
 
-	setupMutationObserver() {
-		const observer = new MutationObserver((mutations) => {
-			const shouldUpdate = mutations.some((mutation) => {
-				if (
-					mutation.type === "childList" &&
-					mutation.addedNodes.length > 0
-				) {
-					return true;
+
+
+	async openInZenSpace(folder: TFolder, options: OpenInZenSpaceOptions = {}) {
+		if (this.getFolderSettings(folder).createIndexFile) {
+			await this.createIndexFile(folder);
+		}
+
+		let baseFile: TFile | null = null;
+		if (this.settings.createBaseFile) {
+			await this.baseFileCreator.createBaseFile(folder, this.getBaseFileOptions(folder));
+			baseFile = this.getBaseFile(folder);
+		}
+
+		let leaf = options.leaf ?? (options.newLeaf ? null : this.getPreferredZenSpaceLeaf());
+
+		if (!leaf) {
+			const leftLeaf = this.app.workspace.getLeftLeaf(options.newLeaf === true);
+			if (!leftLeaf) {
+				throw new Error("Failed to get a left workspace leaf.");
+			}
+			leaf = leftLeaf;
+		}
+
+		const { space } = options;
+		await leaf.setViewState({
+			type: ZEN_SPACE_VIEW_TYPE,
+			state: space
+				? { folder: folder.path, space: space.name, sortBy: space.sortBy, sortOrder: space.sortOrder }
+				: { folder: folder.path, ...(options.keepSpace ? {} : { space: null }) },
+		});
+		this.lastZenSpaceLeaf = leaf;
+
+		this.app.workspace.revealLeaf(leaf);
+
+		this.explorer.setActiveFolder(folder.path);
+
+		if (baseFile) {
+			await this.openBaseFile(baseFile);
+		}
+	}
+
+	getBaseFile(folder: TFolder): TFile | null {
+		const baseFile = this.app.vault.getAbstractFileByPath(this.baseFileCreator.getBaseFilePath(folder));
+		return baseFile instanceof TFile ? baseFile : null;
+	}
+
+	/** Shows the base file according to `baseFileOpenMode`, reusing any tab that already has it open. */
+	async openBaseFile(baseFile: TFile) {
+		const mode = this.settings.baseFileOpenMode;
+		if (mode === "never" || mode === "embed") {
+			return;
+		}
+
+		const leaves: WorkspaceLeaf[] = [];
+		this.app.workspace.iterateAllLeaves((leaf) => {
+			leaves.push(leaf);
+		});
+
+		// Checking the view state rather than the view also finds tabs that haven't loaded yet
+		const existing = leaves.find((leaf) => leaf.getViewState().state?.file === baseFile.path);
+		if (existing) {
+			this.app.workspace.revealLeaf(existing);
+			return;
+		}
+
+		let leaf: WorkspaceLeaf;
+		if (mode === "tab") {
+			leaf = this.app.workspace.getLeaf("tab");
+		} else {
+			const reusable = this.baseLeaf && leaves.includes(this.baseLeaf) ? this.baseLeaf : null;
+			leaf = reusable ?? (mode === "split"
+				? this.app.workspace.getLeaf("split", "vertical")
+				: this.app.workspace.getLeaf("tab"));
+			this.baseLeaf = leaf;
+		}
+
+		await leaf.openFile(baseFile);
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	
+
+
+	
+	private getAllFilesInFolder(folder: TFolder, root: TFolder = folder): { files: TFile[], subfolders: Map<string, TFile[]> } {
+		let files: TFile[] = [];
+		let subfolders = new Map<string, TFile[]>();
+		const filter = this.getFileFilter(folder, root);
+		
+		
+		files = files.concat(folder.children.filter((file): file is TFile => file instanceof TFile && filter.matches(file)));
+		
+		
+		if (this.getFolderSettings(folder).includeSubfolders) {
+			const byCustomOrder = (a: TAbstractFile, b: TAbstractFile) =>
+				this.getCustomOrderRank(a) - this.getCustomOrderRank(b);
+			[...folder.children].sort(byCustomOrder).forEach(child => {
+				if (child instanceof TFolder && filter.matches(child)) {
+					const subfolderFiles = this.getAllFilesInFolder(child, root);
+					subfolders.set(child.path, subfolderFiles.files);
+					
+					subfolderFiles.subfolders.forEach((files, path) => {
+						subfolders.set(path, files);
+					});
 				}
-				return false;
 			});
+		}
+		
+		return { files, subfolders };
+	}
+
+	// Notes are always listed; canvases and attachments only when the folder asks for them
+	private isIndexableFile(file: TFile, settings = this.getFolderSettings(parentPathOf(file.path))): boolean {
+		if (file.extension === "md") return true;
+		if (file.extension === "canvas") return settings.indexIncludeCanvas;
+		return settings.indexIncludeAttachments && file.extension !== "base";
+	}
+
+	// Links stay unambiguous when several folders hold a note with the same name
+	private getIndexLink(file: TFile, sourcePath: string): string {
+		const display = file.extension === "md" ? file.basename : file.name;
+		const linktext = this.settings.indexLinkStyle === "full-path"
+			? file.path.replace(/\.md$/, "")
+			: this.app.metadataCache.fileToLinktext(file, sourcePath, true);
+		return formatLink(linktext, file.path, display);
+	}
+
+	private toTemplateItem(file: TFile, sourcePath: string): IndexTemplateItem {
+		const cache = this.app.metadataCache.getFileCache(file);
+		const tags = cache ? [...new Set(getAllTags(cache) ?? [])] : [];
+		const image = IMAGE_EXTENSIONS.includes(file.extension.toLowerCase())
+			? file
+			: (cache?.embeds ?? [])
+				.map(embed => this.app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), file.path))
+				.find(target => target && IMAGE_EXTENSIONS.includes(target.extension.toLowerCase()));
+
+		return {
+			name: file.name,
+			basename: file.basename,
+			path: file.path,
+			link: this.getIndexLink(file, sourcePath),
+			folder: file.parent ? file.parent.name : "",
+			created: formatDate(file.stat.ctime),
+			modified: formatDate(file.stat.mtime),
+			tags: tags.join(" "),
+			image: image ? this.app.metadataCache.fileToLinktext(image, sourcePath, false) : "",
+		};
+	}
+
+	private async getIndexTemplateContext(
+		folder: TFolder,
+		created: string
+	): Promise<{ context: IndexTemplateContext, statsFrontmatter: Record<string, unknown> | null }> {
+		const settings = this.getFolderSettings(folder);
+		const { files, subfolders } = this.getAllFilesInFolder(folder);
+		const indexPath = this.getIndexFilePath(folder);
+		const toItem = (file: TFile) => this.toTemplateItem(file, indexPath);
+		const isListed = (file: TFile) => this.isIndexableFile(file, settings) && !this.isIndexFile(file);
+		const isNote = (file: TFile) => file.extension === "md";
+		const byName = (a: TFile, b: TFile) =>
+			this.getCustomOrderRank(a) - this.getCustomOrderRank(b) ||
+			a.basename.localeCompare(b.basename);
+
+		
+		const currentFolderFiles = files
+			.filter(isListed)
+			.sort(byName);
+
+		const sections: IndexTemplateSection[] = settings.includeSubfolders
+			? Array.from(subfolders.entries()).map(([path, files]) => ({
+				name: path.split("/").pop() ?? path,
+				path,
+				depth: path.split("/").length - folder.path.split("/").length,
+				items: files
+					.filter(isListed)
+					.sort(byName)
+					.map(toItem),
+			}))
+			: [];
+
+
+		const groupBy = settings.groupByProperty;
+		const groups = groupBy
+			? groupByProperty(currentFolderFiles, groupBy, file => getPropertyValue(this.app, file, groupBy))
+				.map(group => ({ name: group.name, items: group.items.map(toItem) }))
+			: [];
+
+		const context: IndexTemplateContext = {
+			folderName: folder.name,
+			folderPath: folder.path,
+			created,
+			updated: formatDate(Date.now()),
+			items: currentFolderFiles.map(toItem),
+			groups,
+			sections,
+			stats: null,
+			showSummary: settings.indexSummaryBlock,
+			style: settings.indexOutputStyle,
+			baseFile: this.getBaseFile(folder)?.path ?? null,
+		};
+
+		let statsFrontmatter: Record<string, unknown> | null = null;
+		if (settings.indexFolderStats || settings.indexSummaryBlock) {
+			const listedFiles = currentFolderFiles.filter(isNote);
+			if (settings.includeSubfolders) {
+				subfolders.forEach(files => {
+					listedFiles.push(...files.filter(file => isNote(file) && !this.isIndexFile(file)));
+				});
+			}
+
+			const stats = await computeFolderStats(this.app, listedFiles);
+			const lastModified = stats.lastModified ? this.getIndexLink(stats.lastModified, indexPath) : "";
+			context.stats = {
+				noteCount: stats.noteCount,
+				wordCount: stats.wordCount,
+				openTasks: stats.openTasks,
+				lastModified,
+				lastModifiedDate: stats.lastModified ? formatDate(stats.lastModified.stat.mtime) : "",
+				topTags: stats.tagCounts.slice(0, 5),
+			};
+
+			if (settings.indexFolderStats) {
+				const tagCounts: Record<string, number> = {};
+				stats.tagCounts.forEach(([tag, count]) => {
+					tagCounts[tag] = count;
+				});
+				statsFrontmatter = {
+					note_count: stats.noteCount,
+					word_count: stats.wordCount,
+					open_tasks: stats.openTasks,
+					last_modified_note: lastModified,
+					tag_counts: tagCounts,
+				};
+			}
+		}
 
-			if (shouldUpdate) {
-				this.addZenSpaceButtons();
+		return { context, statsFrontmatter };
+	}
+
+	/**
+	 * The Longform project of `folder`. Fields already in the frontmatter are
+	 * kept, as are the order and nesting of its scenes, unless the folder has a
+	 * custom order in Zen Space, which is then used as the manuscript order.
+	 */
+	private buildLongformFrontmatter(folder: TFolder, existing: unknown): Record<string, unknown> {
+		const settings = this.getFolderSettings(folder);
+		const indexFolderPath = parentPathOf(this.getIndexFilePath(folder));
+		const project: Record<string, unknown> = existing && typeof existing === "object" && !Array.isArray(existing)
+			? { ...existing }
+			: {};
+
+		const defaults: Record<string, unknown> = {
+			format: "scenes",
+			title: folder.name,
+			workflow: settings.longformWorkflow,
+			sceneFolder: toSceneFolder(indexFolderPath, resolveSceneFolder(folder.path, settings.longformSceneFolder)),
+			scenes: [],
+			ignoredFiles: [this.getIndexFileName(folder).replace(/\.md$/, "")],
+		};
+		Object.entries(defaults).forEach(([key, value]) => {
+			if (project[key] === undefined) {
+				project[key] = value;
 			}
 		});
 
-		
-		this.registerInterval(
-			window.setInterval(() => {
-				const fileExplorer = document.querySelector(
-					".nav-files-container"
-				);
-				const observedElements = new WeakMap<Element, boolean>();
-				if (fileExplorer && !observedElements.has(fileExplorer)) {
-					observedElements.set(fileExplorer, true);
-					observer.observe(fileExplorer, {
-						childList: true,
-						subtree: true,
-					});
-					observedElements.set(fileExplorer, true);
-				}
-			}, 2000)
+		const sceneFolderPath = resolveSceneFolder(indexFolderPath, String(project.sceneFolder));
+		const generated = this.getLongformScenes(sceneFolderPath, project.ignoredFiles);
+		const hasCustomOrder = Object.entries(this.settings.customOrder).some(([path, names]) =>
+			(path === sceneFolderPath || path.startsWith(`${sceneFolderPath}/`)) && names.length > 0
 		);
+		project.scenes = nestScenes(hasCustomOrder ? generated : mergeScenes(flattenScenes(project.scenes), generated));
+		return project;
 	}
 
-	async openInZenSpace(folder: TFolder) {
-		if (this.settings.createIndexFile) {
-			await this.createIndexFile(folder);
+	// Scenes in subfolders are titled with their path from the scene folder and indented by depth
+	private getLongformScenes(sceneFolderPath: string, ignoredFiles: unknown): LongformScene[] {
+		const sceneFolder = this.app.vault.getAbstractFileByPath(sceneFolderPath);
+		if (!(sceneFolder instanceof TFolder)) {
+			return [];
 		}
 
-		let baseFile: TFile | null = null;
-		if (this.settings.createBaseFile) {
-			const folderName = folder.name;
-			const basePath = `${folder.path}/${folderName}.base`;
-			await this.baseFileCreator.createBaseFile(folder);
-			const maybeBaseFile = this.app.vault.getAbstractFileByPath(basePath);
-			if (maybeBaseFile instanceof TFile) {
-				baseFile = maybeBaseFile;
+		const ignored = (Array.isArray(ignoredFiles) ? ignoredFiles : []).map(pattern => globToRegExp(String(pattern)));
+		const prefix = sceneFolder.isRoot() ? "" : `${sceneFolder.path}/`;
+		const toScenes = (files: TFile[], indent: number) => files
+			.filter(file => file.extension === "md" && !this.isIndexFile(file) && !ignored.some(pattern => pattern.test(file.basename)))
+			.sort((a, b) => this.getCustomOrderRank(a) - this.getCustomOrderRank(b) || a.basename.localeCompare(b.basename))
+			.map(file => ({ title: file.path.substring(prefix.length).replace(/\.md$/, ""), indent }));
+
+		const { files, subfolders } = this.getAllFilesInFolder(sceneFolder);
+		return [
+			...toScenes(files, 0),
+			...Array.from(subfolders.entries()).flatMap(([path, files]) =>
+				toScenes(files, path.substring(prefix.length).split("/").length)
+			),
+		];
+	}
+
+	checkLongformProject(indexFile: TFile): LongformCheckResult {
+		const longform = this.app.metadataCache.getFileCache(indexFile)?.frontmatter?.longform ?? {};
+		const sceneFolderPath = resolveSceneFolder(
+			parentPathOf(indexFile.path),
+			typeof longform.sceneFolder === "string" ? longform.sceneFolder : "/"
+		);
+		const listed = flattenScenes(longform.scenes).map(scene => scene.title);
+
+		return {
+			missing: listed.filter(title =>
+				!(this.app.vault.getAbstractFileByPath(normalizePath(`${sceneFolderPath}/${title}.md`)) instanceof TFile)
+			),
+			unlisted: this.getLongformScenes(sceneFolderPath, longform.ignoredFiles)
+				.map(scene => scene.title)
+				.filter(title => !listed.includes(title)),
+		};
+	}
+
+	// The project of the open Zen Space, the active note, or the active note's folder
+	private getLongformIndexFile(): TFile | null {
+		const folder = this.getActiveZenSpaceView()?.folder;
+		const activeFile = this.app.workspace.getActiveFile();
+		const candidates = [
+			folder ? this.getIndexFile(folder) : null,
+			activeFile,
+			activeFile?.parent ? this.getIndexFile(activeFile.parent) : null,
+		];
+		return candidates.find((file): file is TFile =>
+			file instanceof TFile && this.app.metadataCache.getFileCache(file)?.frontmatter?.longform !== undefined
+		) ?? null;
+	}
+
+	async loadIndexTemplate(): Promise<string> {
+		const templatePath = this.settings.indexTemplatePath.trim();
+		if (!templatePath) {
+			return DEFAULT_INDEX_TEMPLATE;
+		}
+
+		const templateFile = this.app.vault.getAbstractFileByPath(normalizePath(templatePath));
+		if (!(templateFile instanceof TFile)) {
+			// The queue loads the template for every folder it updates, so each missing path is reported once
+			if (this.missingTemplateWarned !== templatePath) {
+				this.missingTemplateWarned = templatePath;
+				new Notice(`Index template not found: ${templatePath}. Using the default template.`);
 			}
+			return DEFAULT_INDEX_TEMPLATE;
 		}
+		this.missingTemplateWarned = null;
+		return this.app.vault.cachedRead(templateFile);
+	}
 
-		let leaf = this.app.workspace.getLeavesOfType(ZEN_SPACE_VIEW_TYPE)[0];
+	private indexFrontmatterNeedsUpdate(
+		content: string,
+		folder: TFolder,
+		statsFrontmatter: Record<string, unknown> | null
+	): boolean {
+		const settings = this.getFolderSettings(folder);
+		const { exists, frontmatter: yaml } = getFrontMatterInfo(content);
+		const frontmatter = exists ? parseYaml(yaml) ?? {} : {};
+		const useGrid = settings.useGridLayoutForIndex || settings.indexOutputStyle === "cards";
+
+		if (readCssClasses(frontmatter.cssclasses).includes("zen-grid") !== useGrid) return true;
+		if (frontmatter.created === undefined) return true;
+
+		const statsChanged = FOLDER_STATS_KEYS.some(key =>
+			JSON.stringify(frontmatter[key]) !== JSON.stringify(statsFrontmatter?.[key])
+		);
+		if (statsChanged) return true;
 
-		if (!leaf) {
-			const leftLeaf = this.app.workspace.getLeftLeaf(false);
-			if (!leftLeaf) {
-				throw new Error("Failed to get a left workspace leaf.");
-			}
-			leaf = leftLeaf;
+		if (settings.useLongformTemplate) {
+			return JSON.stringify(frontmatter.longform) !==
+				JSON.stringify(this.buildLongformFrontmatter(folder, frontmatter.longform));
 		}
+		return frontmatter.title === undefined;
+	}
 
-		await leaf.setViewState({
-			type: ZEN_SPACE_VIEW_TYPE,
-			state: { folder: folder.path },
+	private async applyIndexFrontmatter(
+		indexFile: TFile,
+		folder: TFolder,
+		statsFrontmatter: Record<string, unknown> | null
+	) {
+		await this.app.fileManager.processFrontMatter(indexFile, (frontmatter) => {
+			this.updateIndexFrontmatter(frontmatter, folder, statsFrontmatter);
 		});
+	}
 
-		const view = leaf.view as ZenSpaceView;
-		if (view) {
-			view.folder = folder;
-			await view.onOpen(); 
+	// The same frontmatter edits on text, so the managed region and frontmatter change in one write
+	private withIndexFrontmatter(
+		content: string,
+		folder: TFolder,
+		statsFrontmatter: Record<string, unknown> | null
+	): string {
+		const { exists, frontmatter: yaml, from, to } = getFrontMatterInfo(content);
+		const frontmatter = exists ? parseYaml(yaml) ?? {} : {};
+		this.updateIndexFrontmatter(frontmatter, folder, statsFrontmatter);
+		return exists
+			? content.substring(0, from) + stringifyYaml(frontmatter) + content.substring(to).replace(/^\n(?=---)/, "")
+			: `---\n${stringifyYaml(frontmatter)}---\n${content}`;
+	}
+
+	private updateIndexFrontmatter(
+		frontmatter: Record<string, unknown>,
+		folder: TFolder,
+		statsFrontmatter: Record<string, unknown> | null
+	) {
+		const formattedDate = formatDate(Date.now());
+		const settings = this.getFolderSettings(folder);
+		const useGrid = settings.useGridLayoutForIndex || settings.indexOutputStyle === "cards";
+
+		// Only `zen-grid` belongs to Zen Space; other classes are left as the user wrote them
+		const cssClasses = readCssClasses(frontmatter.cssclasses);
+		if (cssClasses.includes("zen-grid") !== useGrid) {
+			frontmatter.cssclasses = useGrid
+				? [...cssClasses, "zen-grid"]
+				: cssClasses.filter((cls) => cls !== "zen-grid");
 		}
 
-		this.app.workspace.revealLeaf(leaf);
+		if (settings.useLongformTemplate) {
+			frontmatter.longform = this.buildLongformFrontmatter(folder, frontmatter.longform);
+		} else if (frontmatter.title === undefined) {
+			frontmatter.title = folder.name;
+		}
 
-		this.markFolderAsZenSpace(folder);
+		FOLDER_STATS_KEYS.forEach(key => {
+			if (statsFrontmatter) {
+				frontmatter[key] = statsFrontmatter[key];
+			} else {
+				delete frontmatter[key];
+			}
+		});
 
-		if (baseFile) {
-			const baseLeaf = this.app.workspace.getLeaf("tab");
-			await baseLeaf.openFile(baseFile);
-			this.app.workspace.revealLeaf(baseLeaf);
+		if (frontmatter.created === undefined) {
+			frontmatter.created = formattedDate;
 		}
+		frontmatter.updated = formattedDate;
 	}
 
-	
-	markFolderAsZenSpace(folder: TFolder) {
-		const folderElements = document.querySelectorAll(
-			`.nav-folder-title[data-path="${folder.path}"]`
-		);
-		folderElements.forEach((folderEl) => {
-			const parentFolder = folderEl.closest(".nav-folder");
-			if (parentFolder) {
-				parentFolder.classList.add("zen-space-active");
-			}
+	getIndexFileName(folder: TFolder, folderName = folder.name): string {
+		const { indexFileName, indexFileCustomPattern, indexFileLocation } = this.settings;
+		const pattern =
+			indexFileName === "index" ? "Index" :
+			indexFileName === "_index" ? "_index" :
+			indexFileName === "readme" ? "README" :
+			indexFileName === "custom" && indexFileCustomPattern.trim() ? indexFileCustomPattern.trim() :
+			"{{folderName}}";
+
+		// Sibling indexes share one parent folder, so their names must include the folder name
+		const effectivePattern = indexFileLocation === "sibling" && !pattern.includes("{{folderName}}")
+			? "{{folderName}}"
+			: pattern;
+
+		const name = effectivePattern.replace(/\{\{\s*folderName\s*\}\}/g, folderName);
+		return name.endsWith(".md") ? name : `${name}.md`;
+	}
 
-			const button = folderEl.querySelector(".zen-space-button");
-			if (button) {
-				button.classList.add("active-zen-space");
-				(button as HTMLElement).style.color = "var(--interactive-accent)";
-			}
-		});
+	getIndexFilePath(folder: TFolder): string {
+		const name = this.getIndexFileName(folder);
+		if (this.settings.indexFileLocation === "sibling" && folder.parent) {
+			return normalizePath(`${folder.parent.path}/${name}`);
+		}
+		return normalizePath(`${folder.path}/${name}`);
 	}
 
-	
-	private getAllFilesInFolder(folder: TFolder): { files: TFile[], subfolders: Map<string, TFile[]> } {
-		let files: TFile[] = [];
-		let subfolders = new Map<string, TFile[]>();
-		
-		
-		files = files.concat(folder.children.filter((file): file is TFile => file instanceof TFile));
-		
-		
-		if (this.settings.includeSubfolders) {
-			folder.children.forEach(child => {
-				if (child instanceof TFolder) {
-					const subfolderFiles = this.getAllFilesInFolder(child);
-					subfolders.set(child.path, subfolderFiles.files);
-					
-					subfolderFiles.subfolders.forEach((files, path) => {
-						subfolders.set(path, files);
-					});
-				}
-			});
+	getIndexFile(folder: TFolder): TFile | null {
+		const indexFile = this.app.vault.getAbstractFileByPath(this.getIndexFilePath(folder));
+		return indexFile instanceof TFile ? indexFile : null;
+	}
+
+	isIndexFile(file: TAbstractFile): boolean {
+		if (!(file instanceof TFile) || file.extension !== "md" || !file.parent) {
+			return false;
 		}
-		
-		return { files, subfolders };
+		const candidates = [
+			file.parent,
+			...file.parent.children.filter((child): child is TFolder => child instanceof TFolder),
+		];
+		return candidates.some((folder) => this.getIndexFilePath(folder) === file.path);
 	}
 
 	async createIndexFile(folder: TFolder) {
-		const folderName = folder.name;
-		const indexPath = `${folder.path}/${folderName}.md`;
+		const indexPath = this.getIndexFilePath(folder);
+		const indexName = indexPath.split("/").pop();
 
 		
 		const existingFile = this.app.vault.getAbstractFileByPath(indexPath);
 		if (existingFile instanceof TFile) {
 			
 			await this.updateIndexFileContent(folder);
-			new Notice(`Updated ${folderName}.md file`);
+			new Notice(`Updated ${indexName} file`);
 			return;
 		}
 
-		const today = new Date();
-		const formattedDate = today.toISOString().split("T")[0];
-
-		
-		const { files, subfolders } = this.getAllFilesInFolder(folder);
-		
-		
-		const currentFolderFiles = files
-			.filter(file => file.extension === "md" && file.name !== `${folderName}.md`)
-			.map(file => file.name.replace(/\.md$/, ""))
-			.sort();
-
-		
-		const cssClasses = this.settings.useGridLayoutForIndex ? ["zen-grid"] : [];
-
-		
-		let content = "";
-		if (this.settings.useLongformTemplate) {
-			
-			const allFiles = [...currentFolderFiles];
-			subfolders.forEach(files => {
-				files.forEach(file => {
-					if (file.extension === "md" && file.name !== "Index.md") {
-						allFiles.push(file.name.replace(/\.md$/, ""));
-					}
-				});
-			});
-			const uniqueFiles = [...new Set(allFiles)].sort();
-			const scenesYAML = uniqueFiles
-				.map((filename) => `    - ${filename}`)
-				.join("\n");
-
-			content = `---
-cssclasses: ${JSON.stringify(cssClasses)}
-longform:
-  format: scenes
-  title: ${folderName}
-  workflow: Default Workflow
-  sceneFolder: /
-  scenes:
-${scenesYAML || "    "}
-   
-  ignoredFiles:
-    - Index
-created: ${formattedDate}
-updated: ${formattedDate}
----
-
-# ${folderName}
-${currentFolderFiles.length > 0 ? currentFolderFiles.map((file) => `- [[${file}]]`).join("\n") : ""}
-
-${this.settings.includeSubfolders ? Array.from(subfolders.entries()).map(([path, files]) => {
-	const folderName = path.split("/").pop();
-	const depth = path.split("/").length - folder.path.split("/").length;
-	const headingLevel = "#".repeat(depth + 1); 
-	const fileList = files
-		.filter(file => file.extension === "md" && file.name !== "Index.md")
-		.map(file => file.name.replace(/\.md$/, ""))
-		.sort();
-	return fileList.length > 0 ? `${headingLevel} ${folderName}\n${fileList.map(file => `- [[${file}]]`).join("\n")}` : "";
-}).filter(Boolean).join("\n\n") : ""}`;
-		} else {
-			content = `---
-cssclasses: ${JSON.stringify(cssClasses)}
-title: ${folderName}
-created: ${formattedDate}
-updated: ${formattedDate}
----
-
-# ${folderName}
-${currentFolderFiles.length > 0 ? currentFolderFiles.map((file) => `- [[${file}]]`).join("\n") : ""}
-
-${this.settings.includeSubfolders ? Array.from(subfolders.entries()).map(([path, files]) => {
-	const folderName = path.split("/").pop();
-	const depth = path.split("/").length - folder.path.split("/").length;
-	const headingLevel = "#".repeat(depth + 1); 
-	const fileList = files
-		.filter(file => file.extension === "md" && file.name !== "Index.md")
-		.map(file => file.name.replace(/\.md$/, ""))
-		.sort();
-	return fileList.length > 0 ? `${headingLevel} ${folderName}\n${fileList.map(file => `- [[${file}]]`).join("\n")}` : "";
-}).filter(Boolean).join("\n\n") : ""}`;
-		}
-
 		try {
-			await this.app.vault.create(indexPath, content);
-			new Notice(`Created ${folderName}.md file`);
+			const template = await this.loadIndexTemplate();
+			const { context, statsFrontmatter } = await this.getIndexTemplateContext(folder, formatDate(Date.now()));
+			const content = renderIndexTemplate(template, context, this.settings.indexItemFormat);
+
+			const indexFile = await this.app.vault.create(indexPath, content);
+			await this.applyIndexFrontmatter(indexFile, folder, statsFrontmatter);
+			new Notice(`Created ${indexName} file`);
 		} catch (error) {
 			
 			if (!(error instanceof Error && error.message.includes("already exists"))) {
-				new Notice(`Error creating ${folderName}.md file: ${error}`);
+				new Notice(`Error creating ${indexName} file: ${error}`);
 			}
 		}
 	}
 
 	async updateIndexFileContent(folder: TFolder) {
 		const folderName = folder.name;
-		const indexPath = `${folder.path}/${folderName}.md`;
-		const indexFile = this.app.vault.getAbstractFileByPath(indexPath);
+		const indexFile = this.getIndexFile(folder);
 
-		if (!indexFile || !(indexFile instanceof TFile)) {
+		if (!indexFile) {
 			return;
 		}
 
 		try {
-			
-			let content = await this.app.vault.read(indexFile);
+			const template = await this.loadIndexTemplate();
+			const { context, statsFrontmatter } = await this.getIndexTemplateContext(folder, formatDate(indexFile.stat.ctime));
+			const listing = renderManagedRegion(template, context, this.settings.indexItemFormat);
 
 			
-			const { files, subfolders } = this.getAllFilesInFolder(folder);
-			
-			
-			const currentFolderFiles = files
-				.filter(file => file.extension === "md" && file.name !== `${folderName}.md`)
-				.map(file => file.name.replace(/\.md$/, ""))
-				.sort();
-
-			
-			const today = new Date();
-			const formattedDate = today.toISOString().split("T")[0];
-
-			
-			const cssClasses = this.settings.useGridLayoutForIndex ? ["zen-grid"] : [];
+			const content = await this.app.vault.read(indexFile);
+			if (getManagedRegion(content) === listing && !this.indexFrontmatterNeedsUpdate(content, folder, statsFrontmatter)) {
+				return;
+			}
 
-			
-			await this.app.fileManager.processFrontMatter(indexFile, (frontmatter) => {
-				frontmatter.updated = formattedDate;
-				frontmatter.cssclasses = cssClasses;
-
-				if (this.settings.useLongformTemplate) {
-					const allFiles = [...currentFolderFiles];
-					subfolders.forEach(files => {
-						files.forEach(file => {
-							if (file.extension === "md" && file.name !== "Index.md") {
-								allFiles.push(file.name.replace(/\.md$/, ""));
-							}
-						});
-					});
-					const uniqueFiles = [...new Set(allFiles)].sort();
-					
-					if (!frontmatter.longform) {
-						frontmatter.longform = {
-							format: "scenes",
-							title: folder.name,
-							workflow: "Default Workflow",
-							sceneFolder: "/",
-							scenes: uniqueFiles,
-							ignoredFiles: ["Index"]
-						};
-					} else {
-						frontmatter.longform.scenes = uniqueFiles;
-					}
-				}
+			await this.app.vault.process(indexFile, (content) => {
+				const updated = hasManagedRegion(content)
+					? replaceManagedRegion(content, listing)
+					: migrateLegacyIndex(content, folderName, listing);
+				return this.withIndexFrontmatter(updated, folder, statsFrontmatter);
 			});
-
-			
-			const newContent = `---
-cssclasses: ${JSON.stringify(cssClasses)}
-title: ${folder.name}
-created: ${formattedDate}
-updated: ${formattedDate}
----
-
-# ${folder.name}
-${currentFolderFiles.length > 0 ? currentFolderFiles.map((file) => `- [[${file}]]`).join("\n") : ""}
-
-${this.settings.includeSubfolders ? Array.from(subfolders.entries()).map(([path, files]) => {
-	const folderName = path.split("/").pop();
-	const depth = path.split("/").length - folder.path.split("/").length;
-	const headingLevel = "#".repeat(depth + 1); 
-	const fileList = files
-		.filter(file => file.extension === "md" && file.name !== "Index.md")
-		.map(file => file.name.replace(/\.md$/, ""))
-		.sort();
-	return fileList.length > 0 ? `${headingLevel} ${folderName}\n${fileList.map(file => `- [[${file}]]`).join("\n")}` : "";
-}).filter(Boolean).join("\n\n") : ""}`;
-
-			await this.app.vault.modify(indexFile, newContent);
 		} catch (error) {
 			console.error("Error updating Index file:", error);
 		}
@@ -1899,157 +4496,266 @@ ${this.settings.includeSubfolders ? Array.from(subfolders.entries()).map(([path,
 
 	
 	registerIndexFileUpdateEvents() {
+		const enqueueParent = (path: string) => {
+			const parentPath = parentPathOf(path);
+			// Ancestors only list this file when one of them includes subfolders
+			let includeAncestors = false;
+			for (let ancestor = parentPath; ancestor.includes("/") && ancestor !== "/";) {
+				ancestor = parentPathOf(ancestor);
+				if (this.getFolderSettings(ancestor).includeSubfolders) {
+					includeAncestors = true;
+					break;
+				}
+			}
+			this.indexUpdateQueue.enqueuePath(parentPath, includeAncestors);
+		};
+
 		this.registerEvent(
 			this.app.vault.on("create", (file) => {
-				if (file instanceof TFile && file.extension === "md") {
-					if (file.parent) {
-						this.updateIndexFileContent(file.parent as TFolder);
-						if (this.settings.createBaseFile) {
-							this.baseFileCreator.updateBaseFileContent(file.parent as TFolder);
-						}
-					}
-					let currentFolder = file.parent;
-					while (currentFolder && currentFolder !== this.app.vault.getRoot()) {
-						if (this.settings.includeSubfolders) {
-							this.updateIndexFileContent(currentFolder);
-							if (this.settings.createBaseFile) {
-								this.baseFileCreator.updateBaseFileContent(currentFolder);
-							}
-						}
-						currentFolder = currentFolder.parent;
-					}
+				if (file instanceof TFile && this.isIndexableFile(file)) {
+					enqueueParent(file.path);
 				}
 			})
 		);
 
+		
 		this.registerEvent(
-			this.app.vault.on("delete", (file) => {
-				const parentFolder = file.parent;
-				
-				if (file instanceof TFile && file.extension === "md") {
-					if (parentFolder) {
-						setTimeout(() => {
-							this.updateIndexFileContent(parentFolder as TFolder);
-							if (this.settings.createBaseFile) {
-								this.baseFileCreator.updateBaseFileContent(parentFolder as TFolder);
-							}
-						}, 0);
-					}
-
-					let currentFolder = parentFolder;
-					while (currentFolder && currentFolder !== this.app.vault.getRoot()) {
-						if (this.settings.includeSubfolders) {
-							setTimeout(() => {
-								this.updateIndexFileContent(currentFolder as TFolder);
-								if (this.settings.createBaseFile) {
-									this.baseFileCreator.updateBaseFileContent(currentFolder as TFolder);
-								}
-							}, 0);
-						}
-						currentFolder = currentFolder.parent;
-					}
+			this.app.metadataCache.on("changed", (file) => {
+				if (!file.parent || file.extension !== "md" || this.isIndexFile(file)) {
+					return;
+				}
+				// Only groups and stats depend on note contents; plain listings don't
+				const settings = this.getFolderSettings(file.parent);
+				if (settings.groupByProperty || settings.indexFolderStats || settings.indexSummaryBlock) {
+					enqueueParent(file.path);
 				}
 			})
 		);
 
 		this.registerEvent(
-			this.app.vault.on("rename", (file, oldPath) => {
-				if (file instanceof TFile && file.extension === "md") {
-					const oldParentPath = oldPath.substring(0, oldPath.lastIndexOf("/"));
-					const oldParent = this.app.vault.getAbstractFileByPath(oldParentPath);
-					
-					if (oldParent instanceof TFolder) {
-						this.updateIndexFileContent(oldParent);
-						if (this.settings.createBaseFile) {
-							this.baseFileCreator.updateBaseFileContent(oldParent);
-						}
-					}
-
-					if (file.parent) {
-						this.updateIndexFileContent(file.parent as TFolder);
-						if (this.settings.createBaseFile) {
-							this.baseFileCreator.updateBaseFileContent(file.parent as TFolder);
-						}
-					}
+			this.app.vault.on("delete", (file) => {
+				if (file instanceof TFile && this.isIndexableFile(file)) {
+					enqueueParent(file.path);
+				}
+				this.updateCustomOrderEntry(file.path, null);
+				this.updateSavedPaths(file.path, null);
+			})
+		);
 
-					let currentFolder = file.parent;
-					while (currentFolder && currentFolder !== this.app.vault.getRoot()) {
-						if (this.settings.includeSubfolders) {
-							this.updateIndexFileContent(currentFolder);
-							if (this.settings.createBaseFile) {
-								this.baseFileCreator.updateBaseFileContent(currentFolder);
-							}
-						}
-						currentFolder = currentFolder.parent;
-					}
+		this.registerEvent(
+			this.app.vault.on("rename", async (file, oldPath) => {
+				const wasIndexable = file instanceof TFile &&
+					this.isIndexableFile(file, this.getFolderSettings(parentPathOf(oldPath)));
+				if (file instanceof TFile && (wasIndexable || this.isIndexableFile(file))) {
+					enqueueParent(oldPath);
+					enqueueParent(file.path);
+				} else if (file instanceof TFolder) {
+					await this.remapFolderKeyedSettings(oldPath, file.path);
+					await this.moveIndexFileWithFolder(file, oldPath);
 				}
+				await this.updateCustomOrderEntry(oldPath, file.path);
+				await this.updateSavedPaths(oldPath, file.path);
 			})
 		);
 	}
 
-	addZenSpaceButtons() {
-		
-		const folderTitles = document.querySelectorAll(".nav-folder-title");
+	// Index names and sibling indexes depend on the folder's path, so they would be orphaned by a rename
+	private async moveIndexFileWithFolder(folder: TFolder, oldPath: string) {
+		const oldName = oldPath.substring(oldPath.lastIndexOf("/") + 1);
+		const oldIndexPath = this.settings.indexFileLocation === "sibling"
+			? normalizePath(`${parentPathOf(oldPath)}/${this.getIndexFileName(folder, oldName)}`)
+			: normalizePath(`${folder.path}/${this.getIndexFileName(folder, oldName)}`);
+		const indexPath = this.getIndexFilePath(folder);
+		if (oldIndexPath === indexPath || this.app.vault.getAbstractFileByPath(indexPath)) {
+			return;
+		}
 
-		folderTitles.forEach((folderTitleEl) => {
-			
-			if (folderTitleEl.querySelector(".zen-space-button")) {
-				return;
+		const indexFile = this.app.vault.getAbstractFileByPath(oldIndexPath);
+		if (indexFile instanceof TFile) {
+			try {
+				await this.app.fileManager.renameFile(indexFile, indexPath);
+			} catch (error) {
+				console.error("Error moving Index file:", error);
 			}
+		}
+	}
 
-			
-			const folderPath = folderTitleEl.getAttribute("data-path");
-			if (!folderPath) {
-				return;
-			}
+	async refreshFolderIndexes(folder: TFolder) {
+		await this.updateIndexFileContent(folder);
+		if (this.settings.createBaseFile) {
+			await this.baseFileCreator.updateBaseFileContent(folder, this.getBaseFileOptions(folder));
+		}
+	}
 
-			
-			const folder = this.app.vault.getAbstractFileByPath(folderPath);
-			if (!(folder instanceof TFolder)) {
-				return;
-			}
 
-			
-			const buttonEl = document.createElement("div");
-			buttonEl.className = "zen-space-button";
-			buttonEl.setAttribute("aria-label", "Open in Zen Space");
-			const icon = buttonEl.createEl('span', { cls: 'zen-space-icon' });
-			setIcon(icon, 'target');
 
-			
-			buttonEl.addEventListener("click", async (event) => {
-				event.stopPropagation();
-				await this.openInZenSpace(folder);
-			});
+	
+	addCommands() {
+		
+		this.addCommand({
+			id: "open-current-folder",
+			name: "Open current folder",
+			checkCallback: (checking: boolean) => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && activeFile.parent) {
+					if (!checking) {
+						this.openInZenSpace(activeFile.parent);
+					}
+					return true;
+				}
+				return false;
+			},
+		});
 
-			
-			folderTitleEl.appendChild(buttonEl);
+		
+		this.addCommand({
+			id: "open-folder-in-new-zen-space",
+			name: "Open folder in new Zen Space",
+			callback: () => {
+				new FolderSuggestModal(this.app, [], (folder) => {
+					if (folder) {
+						this.openInZenSpace(folder, { newLeaf: true });
+					}
+				}, "Open folder in new Zen Space...").open();
+			},
+		});
 
-			
-			const folderEl = folderTitleEl.closest(".nav-folder");
-			if (folderEl) {
-				const hasIndexFile = folder.children.some(
-					(file) => file instanceof TFile && file.name === `${folder.name}.md`
-				);
+		
+		this.addCommand({
+			id: "switch-space",
+			name: "Switch space",
+			callback: () => {
+				if (this.settings.savedSpaces.length === 0) {
+					new Notice("No saved spaces yet. Save one with \"Save current Zen Space as space\".");
+					return;
+				}
+				new SpaceSuggestModal(this.app, this).open();
+			},
+		});
+
+		
+		this.addCommand({
+			id: "save-space",
+			name: "Save current Zen Space as space",
+			checkCallback: (checking: boolean) => {
+				const view = this.getActiveZenSpaceView();
+				if (view) {
+					if (!checking) {
+						const space = createSavedSpace([view.folder.path]);
+						space.sortBy = view.currentSortBy;
+						space.sortOrder = view.currentSortOrder;
+						new SpaceEditModal(this.app, this, space, null).open();
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		
+		this.addCommand({
+			id: "toggle-focus-mode",
+			name: "Toggle focus mode",
+			checkCallback: (checking: boolean) => {
+				if (!this.settings.focusMode && !this.getActiveZenSpaceView()) {
+					return false;
+				}
+				if (!checking) {
+					this.setFocusMode(!this.settings.focusMode);
+				}
+				return true;
+			},
+		});
+
+		
+		this.addCommand({
+			id: "quick-switcher-in-zen-space",
+			name: "Quick switcher in current Zen Space",
+			checkCallback: (checking: boolean) => {
+				const roots = this.getFocusRoots();
+				if (roots) {
+					if (!checking) {
+						new ScopedFileSuggestModal(this.app, roots).open();
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		
+		this.addCommand({
+			id: "search-in-zen-space",
+			name: "Search in current Zen Space",
+			checkCallback: (checking: boolean) => {
+				const roots = this.getFocusRoots();
+				if (roots) {
+					if (!checking && !this.focusMode.openSearch(roots)) {
+						new Notice("Turn on the core Search plugin to search in a Zen Space");
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		
+		this.addCommand({
+			id: "toggle-card-view",
+			name: "Toggle card view",
+			checkCallback: (checking: boolean) => {
+				const view = this.getActiveZenSpaceView();
+				if (view) {
+					if (!checking) {
+						view.toggleViewMode();
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		
+		this.addCommand({
+			id: "regenerate-base-file",
+			name: "Regenerate base file",
+			checkCallback: (checking: boolean) => {
+				const folder = this.getActiveZenSpaceView()?.folder ?? this.app.workspace.getActiveFile()?.parent;
+				if (folder) {
+					if (!checking) {
+						this.baseFileCreator.regenerateBaseFile(folder, this.getBaseFileOptions(folder));
+					}
+					return true;
+				}
+				return false;
+			},
+		});
 
-				if (hasIndexFile && this.settings.createIndexFile) {
-					folderEl.classList.add("has-index-file");
+		
+		this.addCommand({
+			id: "open-folder-settings",
+			name: "Open folder settings for current Zen Space",
+			checkCallback: (checking: boolean) => {
+				const view = this.getActiveZenSpaceView();
+				if (view) {
+					if (!checking) {
+						new FolderSettingsModal(this.app, this, view.folder).open();
+					}
+					return true;
 				}
-			}
+				return false;
+			},
 		});
-	}
 
-	
-	addCommands() {
 		
 		this.addCommand({
-			id: "open-current-folder",
-			name: "Open current folder",
+			id: "check-longform-project",
+			name: "Compile-ready check for Longform project",
 			checkCallback: (checking: boolean) => {
-				const activeFile = this.app.workspace.getActiveFile();
-				if (activeFile && activeFile.parent) {
+				const indexFile = this.getLongformIndexFile();
+				if (indexFile) {
 					if (!checking) {
-						this.openInZenSpace(activeFile.parent);
+						new LongformCheckModal(this.app, indexFile, this.checkLongformProject(indexFile)).open();
 					}
 					return true;
 				}
@@ -2113,10 +4819,7 @@ ${this.settings.includeSubfolders ? Array.from(subfolders.entries()).map(([path,
 				const view = this.getActiveZenSpaceView();
 				if (view) {
 					const activeFile = this.app.workspace.getActiveFile();
-					if (
-						activeFile &&
-						view.isInCurrentFolder(activeFile)
-					) {
+					if (activeFile) {
 						if (!checking) {
 							view.togglePinItem(activeFile.path);
 						}
@@ -2132,11 +4835,6 @@ ${this.settings.includeSubfolders ? Array.from(subfolders.entries()).map(([path,
 		console.log("Unloading ZenSpace plugin");
 
 		
-		document
-			.querySelectorAll(".zen-space-button")
-			.forEach((el) => el.remove());
-		
-		
 		document.body.classList.remove('colorful-zen-grid');
 		document.body.classList.remove('simple-zen-grid');
 	}
@@ -2170,6 +4868,7 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.createIndexFile = value;
 						await this.plugin.saveSettings();
+						this.plugin.refreshExplorer();
 					})
 			);
 
@@ -2187,6 +4886,100 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Open database file")
+			.setDesc("What happens to the Database file when you open a folder in Zen Space. A file that is already open is never opened twice.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("never", "Don't open")
+					.addOption("tab", "Open in a new tab")
+					.addOption("dedicated-tab", "Reuse one tab")
+					.addOption("split", "Open in a split")
+					.addOption("embed", "Embed in the Zen Space pane")
+					.setValue(this.plugin.settings.baseFileOpenMode)
+					.onChange(async (value: ZenSpaceSettings["baseFileOpenMode"]) => {
+						this.plugin.settings.baseFileOpenMode = value;
+						await this.plugin.saveSettings();
+						this.plugin.getZenSpaceViews().forEach((view) => view.renderBaseEmbed());
+					})
+			);
+
+		const baseColumnsSetting = new Setting(containerEl)
+			.setName("Database columns")
+			.setDesc("Properties shown as columns in Database files, one per line. Use the dropdown to add a property found in your notes. The Regenerate base file command adds new columns to existing files.")
+			.addTextArea((text) =>
+				text
+					.setValue(this.plugin.settings.baseColumns.join("\n"))
+					.onChange(async (value) => {
+						this.plugin.settings.baseColumns = parseRuleList(value);
+						await this.plugin.saveSettings();
+					})
+			);
+		const knownProperties = collectPropertyKeys(this.app, this.app.vault.getMarkdownFiles());
+		baseColumnsSetting.addDropdown((dropdown) => {
+			dropdown.addOption("", "Add property...");
+			["file.name", "file.ctime", "file.mtime", "file.tags", ...knownProperties]
+				.filter((property) => !this.plugin.settings.baseColumns.includes(property))
+				.forEach((property) => dropdown.addOption(property, property));
+			dropdown.onChange(async (value) => {
+				if (!value) return;
+				this.plugin.settings.baseColumns.push(value);
+				await this.plugin.saveSettings();
+				this.display();
+			});
+		});
+
+		const viewToggles: { type: BaseViewType; name: string }[] = [
+			{ type: "cards", name: "Add cards view" },
+			{ type: "list", name: "Add list view" },
+		];
+		for (const view of viewToggles) {
+			new Setting(containerEl)
+				.setName(view.name)
+				.setDesc("Database files always get a table view")
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.baseViews.includes(view.type))
+						.onChange(async (value) => {
+							const views = new Set(this.plugin.settings.baseViews);
+							views.add("table");
+							if (value) {
+								views.add(view.type);
+							} else {
+								views.delete(view.type);
+							}
+							this.plugin.settings.baseViews = (["table", "cards", "list"] as BaseViewType[])
+								.filter((type) => views.has(type));
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Include subfolders in database")
+			.setDesc("Filter Database files with file.inFolder so notes in subfolders are listed too")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.baseIncludeSubfolders)
+					.onChange(async (value) => {
+						this.plugin.settings.baseIncludeSubfolders = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Database tag filter")
+			.setDesc("Only list notes with one of these tags in Database files. Separate with commas.")
+			.addText((text) =>
+				text
+					.setPlaceholder("project, draft")
+					.setValue(this.plugin.settings.baseTags.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.baseTags = parseRuleList(value);
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Use longform template")
 			.setDesc(
@@ -2200,7 +4993,164 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					})
 			);
-	
+
+		new Setting(containerEl)
+			.setName("Longform workflow")
+			.setDesc("Workflow for new Longform projects. Projects that already have one keep it.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Default Workflow")
+					.setValue(this.plugin.settings.longformWorkflow)
+					.onChange(async (value) => {
+						this.plugin.settings.longformWorkflow = value.trim() || "Default Workflow";
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Longform scene folder")
+			.setDesc("Folder holding the scenes of new Longform projects, relative to the Zen Space folder. Use / for the folder itself. Notes in its subfolders are indented under the scenes before them.")
+			.addText((text) =>
+				text
+					.setPlaceholder("/")
+					.setValue(this.plugin.settings.longformSceneFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.longformSceneFolder = value.trim() || "/";
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Index template")
+			.setDesc(
+				"Path to a note used as the template for new Index files. Supports {{folderName}}, {{folderPath}}, {{created}}, {{updated}}, {{fileList}}, {{subfolderSections}} and {{fileCount}}. Leave empty for the built-in template."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Templates/Index template.md")
+					.setValue(this.plugin.settings.indexTemplatePath)
+					.onChange(async (value) => {
+						this.plugin.settings.indexTemplatePath = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Index item format")
+			.setDesc(
+				"How each file is written in the Index file list. Supports {{link}}, {{name}}, {{basename}}, {{path}}, {{folder}}, {{created}} and {{modified}}."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_ITEM_FORMAT)
+					.setValue(this.plugin.settings.indexItemFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.indexItemFormat = value || DEFAULT_ITEM_FORMAT;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Index style")
+			.setDesc("How files are laid out in Index files. The item format applies to the bullet list, outline and callout styles. Folders can override this in their folder settings.")
+			.addDropdown((dropdown) => {
+				Object.entries(INDEX_STYLE_NAMES).forEach(([style, name]) => dropdown.addOption(style, name));
+				dropdown
+					.setValue(this.plugin.settings.indexOutputStyle)
+					.onChange(async (value: IndexOutputStyle) => {
+						this.plugin.settings.indexOutputStyle = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Index links")
+			.setDesc("Shortest path links only add folders when two notes share a name. Full path links always include the folder and show the file name.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("shortest", "Shortest unique path")
+					.addOption("full-path", "Full path")
+					.setValue(this.plugin.settings.indexLinkStyle)
+					.onChange(async (value: ZenSpaceSettings["indexLinkStyle"]) => {
+						this.plugin.settings.indexLinkStyle = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Canvas files in index")
+			.setDesc("List canvas files in Index files along with notes")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.indexIncludeCanvas)
+					.onChange(async (value) => {
+						this.plugin.settings.indexIncludeCanvas = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Attachments in index")
+			.setDesc("List PDFs, images and other attachments in Index files along with notes")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.indexIncludeAttachments)
+					.onChange(async (value) => {
+						this.plugin.settings.indexIncludeAttachments = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Index file name")
+			.setDesc("How Index files are named")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("folder-name", "Folder name")
+					.addOption("index", "Index.md")
+					.addOption("_index", "_index.md")
+					.addOption("readme", "README.md")
+					.addOption("custom", "Custom pattern")
+					.setValue(this.plugin.settings.indexFileName)
+					.onChange(async (value: ZenSpaceSettings["indexFileName"]) => {
+						this.plugin.settings.indexFileName = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshExplorer();
+						this.display();
+					})
+			);
+
+		if (this.plugin.settings.indexFileName === "custom") {
+			new Setting(containerEl)
+				.setName("Custom index file name")
+				.setDesc("Name pattern for Index files. Use {{folderName}} for the folder name.")
+				.addText((text) =>
+					text
+						.setPlaceholder("{{folderName}} MOC")
+						.setValue(this.plugin.settings.indexFileCustomPattern)
+						.onChange(async (value) => {
+							this.plugin.settings.indexFileCustomPattern = value;
+							await this.plugin.saveSettings();
+							this.plugin.refreshExplorer();
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Index file location")
+			.setDesc("Place the Index file inside its folder, or next to it as a folder note. Folder notes are always named after the folder.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("inside", "Inside the folder")
+					.addOption("sibling", "Next to the folder")
+					.setValue(this.plugin.settings.indexFileLocation)
+					.onChange(async (value: ZenSpaceSettings["indexFileLocation"]) => {
+						this.plugin.settings.indexFileLocation = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshExplorer();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Use grid layout for Index files")
 			.setDesc("Display files in a grid layout for a more visual and elegant presentation")
@@ -2219,6 +5169,30 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 						}
 					})
 			);
+
+		new Setting(containerEl)
+			.setName("Folder stats in index")
+			.setDesc("Write note_count, word_count, open_tasks, last_modified_note and tag_counts to the Index file frontmatter, so Bases and dashboards can query folders")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.indexFolderStats)
+					.onChange(async (value) => {
+						this.plugin.settings.indexFolderStats = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Summary block in index")
+			.setDesc("Show a callout with the folder stats where the index template has {{summary}}. Templates can also use {{noteCount}}, {{wordCount}}, {{openTasks}} and {{lastModified}}.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.indexSummaryBlock)
+					.onChange(async (value) => {
+						this.plugin.settings.indexSummaryBlock = value;
+						await this.plugin.saveSettings();
+					})
+			);
 			
 
 		
@@ -2244,9 +5218,7 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.includeSubfolders = value;
 						await this.plugin.saveSettings();
-						if (this.plugin.getActiveZenSpaceView()) {
-							this.plugin.getActiveZenSpaceView()!.refreshView();
-						}
+						this.plugin.refreshZenSpaceViews();
 					})
 			);
 
@@ -2259,9 +5231,7 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.includeCanvasFiles = value;
 						await this.plugin.saveSettings();
-						if (this.plugin.getActiveZenSpaceView()) {
-							this.plugin.getActiveZenSpaceView()!.refreshView();
-						}
+						this.plugin.refreshZenSpaceViews();
 					})
 			);
 
@@ -2276,12 +5246,53 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.includeOtherFormats = value;
 						await this.plugin.saveSettings();
-						if (this.plugin.getActiveZenSpaceView()) {
-							this.plugin.getActiveZenSpaceView()!.refreshView();
-						}
+						this.plugin.refreshZenSpaceViews();
 					})
 			);
 
+		const ruleSettings: { key: "includePatterns" | "excludePatterns" | "includeExtensions" | "excludeExtensions"; name: string; desc: string; placeholder: string }[] = [
+			{
+				key: "excludePatterns",
+				name: "Exclude patterns",
+				desc: "Glob patterns for files and folders to hide from the view, Index files and Database files. Use * within a name and ** across folders. One per line.",
+				placeholder: "**/attachments/**\n*.excalidraw.md\n_templates/**",
+			},
+			{
+				key: "includePatterns",
+				name: "Include patterns",
+				desc: "When set, only files matching one of these glob patterns are listed. Folders stay visible. One per line.",
+				placeholder: "**/*.md",
+			},
+			{
+				key: "includeExtensions",
+				name: "Only these extensions",
+				desc: "When set, only files with these extensions are listed, replacing the canvas and other formats toggles. Separate with commas.",
+				placeholder: "md, pdf",
+			},
+			{
+				key: "excludeExtensions",
+				name: "Exclude extensions",
+				desc: "Files with these extensions are never listed. Separate with commas.",
+				placeholder: "png, jpg",
+			},
+		];
+
+		for (const rule of ruleSettings) {
+			new Setting(containerEl)
+				.setName(rule.name)
+				.setDesc(rule.desc)
+				.addTextArea((text) =>
+					text
+						.setPlaceholder(rule.placeholder)
+						.setValue(this.plugin.settings[rule.key].join(rule.key.endsWith("Patterns") ? "\n" : ", "))
+						.onChange(async (value) => {
+							this.plugin.settings[rule.key] = parseRuleList(value);
+							await this.plugin.saveSettings();
+							this.plugin.refreshZenSpaceViews();
+						})
+				);
+		}
+
 		new Setting(containerEl)
 			.setName("Hide file extensions")
 			.setDesc("Hide file extensions in the Zen Space view")
@@ -2291,9 +5302,7 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.hideFileExtensions = value;
 						await this.plugin.saveSettings();
-						if (this.plugin.getActiveZenSpaceView()) {
-							this.plugin.getActiveZenSpaceView()!.refreshView();
-						}
+						this.plugin.refreshZenSpaceViews();
 					})
 			);
 
@@ -2306,9 +5315,7 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.hideFileIcons = value;
 						await this.plugin.saveSettings();
-						if (this.plugin.getActiveZenSpaceView()) {
-							this.plugin.getActiveZenSpaceView()!.refreshView();
-						}
+						this.plugin.refreshZenSpaceViews();
 					})
 			);
 
@@ -2323,9 +5330,7 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.showSearchBar = value;
 						await this.plugin.saveSettings();
-						if (this.plugin.getActiveZenSpaceView()) {
-							this.plugin.getActiveZenSpaceView()!.refreshView(true);
-						}
+						this.plugin.refreshZenSpaceViews(true);
 					})
 			);
 
@@ -2340,9 +5345,7 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.showQuickActions = value;
 						await this.plugin.saveSettings();
-						if (this.plugin.getActiveZenSpaceView()) {
-							this.plugin.getActiveZenSpaceView()!.refreshView();
-						}
+						this.plugin.refreshZenSpaceViews();
 					})
 			);
 
@@ -2357,9 +5360,94 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.showBreadcrumbs = value;
 						await this.plugin.saveSettings();
-						if (this.plugin.getActiveZenSpaceView()) {
-							this.plugin.getActiveZenSpaceView()!.refreshView(true);
-						}
+						this.plugin.refreshZenSpaceViews(true);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Explorer button")
+			.setDesc("Show an \"Open in Zen Space\" button on folders in the file explorer")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.explorerButton)
+					.onChange(async (value) => {
+						this.plugin.settings.explorerButton = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshExplorer();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Explorer index badge")
+			.setDesc("Highlight folders that have an Index file in the file explorer")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.explorerIndexBadge)
+					.onChange(async (value) => {
+						this.plugin.settings.explorerIndexBadge = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshExplorer();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Explorer note count")
+			.setDesc("Show the number of notes in each folder in the file explorer")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.explorerNoteCount)
+					.onChange(async (value) => {
+						this.plugin.settings.explorerNoteCount = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshExplorer();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Focus mode")
+			.setDesc("Hide or dim everything outside the open Zen Space in the file explorer. Applies while a Zen Space is open.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.focusMode)
+					.onChange(async (value) => {
+						await this.plugin.setFocusMode(value);
+					})
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("hide", "Hide")
+					.addOption("dim", "Dim")
+					.setValue(this.plugin.settings.focusModeStyle)
+					.onChange(async (value: FocusStyle) => {
+						this.plugin.settings.focusModeStyle = value;
+						await this.plugin.saveSettings();
+						this.plugin.updateFocusMode();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Scope search and graph in focus mode")
+			.setDesc("While focus mode is on, limit open search and graph views to the Zen Space folders")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.focusScopeSearch)
+					.onChange(async (value) => {
+						this.plugin.settings.focusScopeSearch = value;
+						await this.plugin.saveSettings();
+						this.plugin.updateFocusMode();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Show pinned section")
+			.setDesc("List pinned files and folders from anywhere in the vault at the top of the Zen Space view")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showPinnedSection)
+					.onChange(async (value) => {
+						this.plugin.settings.showPinnedSection = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshZenSpaceViews();
 					})
 			);
 
@@ -2372,15 +5460,17 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					.addOption("filename", "File Name")
 					.addOption("created", "Creation Date")
 					.addOption("modified", "Modified Date")
+					.addOption("custom", "Custom Order")
+					.addOption("property", "Property")
 					.setValue(this.plugin.settings.defaultSortBy)
 					.onChange(
-						async (value: "filename" | "created" | "modified") => {
+						async (value: ZenSpaceSortBy) => {
 							this.plugin.settings.defaultSortBy = value;
 							await this.plugin.saveSettings();
-							if (this.plugin.getActiveZenSpaceView()) {
-								this.plugin.getActiveZenSpaceView()!.currentSortBy = value;
-								this.plugin.getActiveZenSpaceView()!.refreshView();
-							}
+							this.plugin.getZenSpaceViews().forEach((view) => {
+								view.applyFolderSort();
+								view.refreshView();
+							});
 						}
 					)
 			);
@@ -2396,12 +5486,81 @@ class ZenSpaceSettingTab extends PluginSettingTab {
 					.onChange(async (value: "asc" | "desc") => {
 						this.plugin.settings.defaultSortOrder = value;
 						await this.plugin.saveSettings();
-						if (this.plugin.getActiveZenSpaceView()) {
-							this.plugin.getActiveZenSpaceView()!.currentSortOrder = value;
-							this.plugin.getActiveZenSpaceView()!.refreshView();
-						}
+						this.plugin.getZenSpaceViews().forEach((view) => {
+							view.applyFolderSort();
+							view.refreshView();
+						});
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Sort property")
+			.setDesc("Frontmatter property used when sorting by property, such as status, priority or due")
+			.addText((text) =>
+				text
+					.setPlaceholder("priority")
+					.setValue(this.plugin.settings.defaultSortProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultSortProperty = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.getZenSpaceViews().forEach((view) => {
+							view.applyFolderSort();
+							view.refreshView();
+						});
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Group by property")
+			.setDesc("Group files under a heading per value of this frontmatter property, in the view and in Index files. Leave empty to turn grouping off.")
+			.addText((text) =>
+				text
+					.setPlaceholder("status")
+					.setValue(this.plugin.settings.groupByProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.groupByProperty = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.getZenSpaceViews().forEach((view) => {
+							view.applyFolderSort();
+							view.refreshView();
+						});
 					})
 			);
+
+		new Setting(containerEl)
+			.setName("Spaces")
+			.setDesc("Named spaces combine folders, filters, a sort, their own pins and a set of tabs. Switch between them with the ribbon icon or the \"Switch space\" command.")
+			.setHeading();
+
+		this.plugin.settings.savedSpaces.forEach((space) => {
+			new Setting(containerEl)
+				.setName(space.name)
+				.setDesc(space.folders.join(", "))
+				.addExtraButton((button) =>
+					button
+						.setIcon("pencil")
+						.setTooltip("Edit space")
+						.onClick(() => {
+							new SpaceEditModal(this.app, this.plugin, space, space.name, () => this.display()).open();
+						})
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Delete space")
+						.onClick(async () => {
+							await this.plugin.deleteSpace(space.name);
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.addButton((button) =>
+				button.setButtonText("Add space").onClick(() => {
+					new SpaceEditModal(this.app, this.plugin, createSavedSpace([]), null, () => this.display()).open();
+				})
+			);
 	}
 }
 
@@ -2419,3 +5578,40 @@ function naturalCompare(a: string, b: string): number {
 	}
 	return ax.length - bx.length;
 }
+
+function formatDate(time: number): string {
+	return new Date(time).toISOString().split("T")[0];
+}
+
+// `cssclasses` may be a list or, in older notes, a single string
+function readCssClasses(value: unknown): string[] {
+	if (Array.isArray(value)) return value.map(String);
+	return typeof value === "string" ? value.split(/[\s,]+/).filter(Boolean) : [];
+}
+
+function createSavedSpace(folders: string[]): SavedSpace {
+	return {
+		name: "",
+		folders,
+		includePatterns: [],
+		excludePatterns: [],
+		sortBy: DEFAULT_SETTINGS.defaultSortBy,
+		sortOrder: DEFAULT_SETTINGS.defaultSortOrder,
+		pinnedItems: [],
+		tabs: [],
+	};
+}
+
+// Maps `paths` after `oldPath` was renamed to `newPath`, or deleted when `newPath` is null
+function remapPaths(paths: string[], oldPath: string, newPath: string | null): string[] {
+	return paths.flatMap((path) => {
+		if (path !== oldPath && !path.startsWith(oldPath + "/")) {
+			return [path];
+		}
+		return newPath === null ? [] : [newPath + path.substring(oldPath.length)];
+	});
+}
+
+function parentPathOf(path: string): string {
+	return path.includes("/") ? path.substring(0, path.lastIndexOf("/")) : "/";
+}
@@ -1,11 +1,58 @@
-import { App, TFolder, Notice, TFile } from "obsidian";
+import { App, TFolder, Notice, TFile, parseYaml, stringifyYaml } from "obsidian";
+import { FileFilter } from "./file-filter";
+
+export type BaseViewType = "table" | "cards" | "list";
+
+export interface BaseFileOptions {
+    columns: string[];
+    views: BaseViewType[];
+    includeSubfolders: boolean;
+    tags: string[];
+    filter: FileFilter;
+}
+
+interface BaseView {
+    type: string;
+    name: string;
+    order?: string[];
+    filters?: { and?: unknown[] };
+    [key: string]: unknown;
+}
+
+/**
+ * Remembers the top-level filters Zen Space last wrote to each folder's base
+ * file, so later updates can tell them apart from filters added by hand.
+ */
+export interface GeneratedFilterStore {
+    get(folder: TFolder): string[] | undefined;
+    set(folder: TFolder, filters: string[]): void;
+}
+
+interface BaseDefinition {
+    filters?: { and?: unknown[]; [key: string]: unknown };
+    views?: BaseView[];
+    [key: string]: unknown;
+}
+
+// Shapes of the filters Zen Space writes, for base files from before generated filters were remembered
+const GENERATED_FILTER = /^!?(file\.folder ==|file\.inFolder\(|file\.hasTag\(|file\.ext [!=]=|\[.*\]\.contains\(file\.ext\)|\/.*\/i\.matches\(file\.path\))/;
+
+const VIEW_NAMES: Record<BaseViewType, string> = {
+    table: "Table",
+    cards: "Cards",
+    list: "List",
+};
 
 export class BaseFileCreator {
-    constructor(private app: App) {}
+    constructor(private app: App, private generatedFilters: GeneratedFilterStore) {}
+
+    getBaseFilePath(folder: TFolder): string {
+        return `${folder.path}/${folder.name}.base`;
+    }
 
-    async createBaseFile(folder: TFolder) {
+    async createBaseFile(folder: TFolder, options: BaseFileOptions) {
         const folderName = folder.name;
-        const basePath = `${folder.path}/${folderName}.base`;
+        const basePath = this.getBaseFilePath(folder);
 
         // Check if base file already exists
         const existingFile = this.app.vault.getAbstractFileByPath(basePath);
@@ -15,10 +62,12 @@ export class BaseFileCreator {
         }
 
         // Create base file content
-        const content = this.generateBaseFileContent(folder);
+        const definition = this.generateBaseDefinition(folder, options);
+        const content = stringifyYaml(definition);
 
         try {
             await this.app.vault.create(basePath, content);
+            this.generatedFilters.set(folder, definition.filters?.and as string[]);
             new Notice(`Created Database file in ${folderName}`);
         } catch (error) {
             if (!(error instanceof Error && error.message.includes("already exists"))) {
@@ -27,41 +76,140 @@ export class BaseFileCreator {
         }
     }
 
-    // updateBaseFileContent is no longer used automatically
-    // Keeping it for possible future manual use, but not called by plugin
-    async updateBaseFileContent(folder: TFolder) {
-        const folderName = folder.name;
-        const basePath = `${folder.path}/${folderName}.base`;
-        const baseFile = this.app.vault.getAbstractFileByPath(basePath);
+    // Called by the index update queue; only the filters are refreshed so edits to views survive
+    async updateBaseFileContent(folder: TFolder, options: BaseFileOptions) {
+        const baseFile = this.app.vault.getAbstractFileByPath(this.getBaseFilePath(folder));
 
         if (!baseFile || !(baseFile instanceof TFile)) {
             return;
         }
 
         try {
-            const content = this.generateBaseFileContent(folder);
-            await this.app.vault.modify(baseFile, content);
+            await this.mergeIntoBaseFile(baseFile, folder, options, false);
         } catch (error) {
             console.error("Error updating Database file:", error);
         }
     }
 
-    private generateBaseFileContent(folder: TFolder): string {
+    /**
+     * Creates the base file, or merges the configured views and columns into
+     * the existing one. Views, columns and settings added by hand are kept.
+     */
+    async regenerateBaseFile(folder: TFolder, options: BaseFileOptions) {
+        const baseFile = this.app.vault.getAbstractFileByPath(this.getBaseFilePath(folder));
+        if (!(baseFile instanceof TFile)) {
+            await this.createBaseFile(folder, options);
+            return;
+        }
+
+        try {
+            const changed = await this.mergeIntoBaseFile(baseFile, folder, options, true);
+            new Notice(changed
+                ? `Updated Database file in ${folder.name}`
+                : `Database file in ${folder.name} is already up to date`);
+        } catch (error) {
+            new Notice(`Error updating Database file: ${error}`);
+        }
+    }
+
+    private async mergeIntoBaseFile(
+        baseFile: TFile,
+        folder: TFolder,
+        options: BaseFileOptions,
+        includeViews: boolean
+    ): Promise<boolean> {
+        const existing: BaseDefinition = parseYaml(await this.app.vault.read(baseFile)) ?? {};
+        const generated = this.generateBaseDefinition(folder, options);
+        const merged = this.mergeBaseDefinition(existing, generated, this.generatedFilters.get(folder), includeViews);
+        this.generatedFilters.set(folder, generated.filters?.and as string[]);
+
+        // Compare parsed values so formatting differences alone never cause a rewrite
+        if (JSON.stringify(merged) === JSON.stringify(existing)) {
+            return false;
+        }
+        await this.app.vault.modify(baseFile, stringifyYaml(merged));
+        return true;
+    }
+
+    private generateBaseDefinition(folder: TFolder, options: BaseFileOptions): BaseDefinition {
         const folderPath = folder.path === "" ? "/" : folder.path;
-        return `views:
-  - type: table
-    name: Table
-    filters:
-      and:
-        - file.folder == "${folderPath}"
-    order:
-      - file.name
-      - tags
-      - created
-      - updated
-    columnSize:
-      file.name: 352
-      note.tags: 306
-`;
+        const filters: string[] = [];
+
+        if (!options.includeSubfolders) {
+            filters.push(`file.folder == ${JSON.stringify(folderPath)}`);
+        } else if (folderPath !== "/") {
+            filters.push(`file.inFolder(${JSON.stringify(folderPath)})`);
+        }
+
+        const tags = options.tags.map((tag) => tag.replace(/^#/, "")).filter(Boolean);
+        if (tags.length > 0) {
+            filters.push(tags.map((tag) => `file.hasTag(${JSON.stringify(tag)})`).join(" || "));
+        }
+
+        filters.push(...options.filter.toBaseFilters());
+
+        const views: BaseViewType[] = options.views.length > 0 ? options.views : ["table"];
+        return {
+            filters: { and: filters },
+            views: views.map((type) => ({
+                type,
+                name: VIEW_NAMES[type],
+                order: [...options.columns],
+            })),
+        };
+    }
+
+    // The filters Zen Space generated are replaced; everything else in the file belongs to the user
+    private mergeBaseDefinition(
+        existing: BaseDefinition,
+        generated: BaseDefinition,
+        previousFilters: string[] | undefined,
+        includeViews: boolean
+    ): BaseDefinition {
+        const ownFilters: unknown[] = generated.filters?.and ?? [];
+        const isPrevious = (entry: unknown) => typeof entry === "string" &&
+            (previousFilters ? previousFilters.includes(entry) : GENERATED_FILTER.test(entry));
+        const existingGroup = existing.filters && typeof existing.filters === "object" ? existing.filters : {};
+        const existingAnd = Array.isArray(existingGroup.and) ? existingGroup.and : [];
+        const userFilters = existingAnd.filter((entry) => !isPrevious(entry) && !ownFilters.includes(entry));
+
+        const views: BaseView[] = (existing.views ?? []).map((view) => {
+            const copy = { ...view };
+            // Older versions wrote the folder filter into each view, it now lives at the top level
+            const viewFilters = copy.filters?.and;
+            if (Array.isArray(viewFilters)) {
+                const kept = viewFilters.filter((entry) =>
+                    typeof entry !== "string" ||
+                    (!entry.startsWith("file.folder ==") && !ownFilters.includes(entry))
+                );
+                if (kept.length === viewFilters.length) {
+                    return copy;
+                }
+                if (kept.length === 0 && Object.keys(copy.filters ?? {}).length === 1) {
+                    delete copy.filters;
+                } else {
+                    copy.filters = { ...copy.filters, and: kept };
+                }
+            }
+            return copy;
+        });
+
+        if (includeViews) {
+            for (const view of generated.views ?? []) {
+                const match = views.find((candidate) => candidate.type === view.type && candidate.name === view.name);
+                if (!match) {
+                    views.push(view);
+                    continue;
+                }
+                const order = Array.isArray(match.order) ? match.order : [];
+                match.order = [...order, ...(view.order ?? []).filter((column) => !order.includes(column))];
+            }
+        }
+
+        return {
+            ...existing,
+            filters: { ...existingGroup, and: [...ownFilters, ...userFilters] },
+            views,
+        };
     }
-} 
\ No newline at end of file
+}
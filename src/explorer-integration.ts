@@ -0,0 +1,143 @@
+import { App, setIcon, TFolder } from "obsidian";
+
+export interface ExplorerDecorations {
+	/** The "Open in Zen Space" button. */
+	button: boolean;
+	/** Highlight for folders that have an index file. */
+	indexBadge: boolean;
+	/** Number of notes directly inside the folder. */
+	noteCount: boolean;
+}
+
+export interface ExplorerIntegrationHost {
+	getDecorations(): ExplorerDecorations;
+	openFolder(folder: TFolder): void;
+	hasIndexFile(folder: TFolder): boolean;
+	countNotes(folder: TFolder): number;
+	/** Called with every part of the explorer that was rendered, after it was decorated. */
+	onRender?(root: ParentNode): void;
+}
+
+const FOLDER_ROWS = ".nav-folder-title[data-path]";
+const DECORATIONS_CLASS = "zen-space-explorer-decorations";
+
+/**
+ * Decorates folder rows of the core file explorer. Rows are decorated once
+ * when the explorer renders them, through one observer per explorer, and
+ * again only when something that changes their decorations happens.
+ */
+export class ExplorerIntegration {
+	private observers: Map<HTMLElement, MutationObserver> = new Map();
+	private activeFolderPath: string | null = null;
+
+	constructor(private app: App, private host: ExplorerIntegrationHost) {}
+
+	/** Starts observing explorers that were opened since the last call. */
+	attach() {
+		this.observers.forEach((observer, container) => {
+			if (!container.isConnected) {
+				observer.disconnect();
+				this.observers.delete(container);
+			}
+		});
+
+		this.app.workspace.getLeavesOfType("file-explorer").forEach((leaf) => {
+			const container = leaf.view.containerEl;
+			if (this.observers.has(container)) return;
+
+			const observer = new MutationObserver((records) => {
+				for (const record of records) {
+					record.addedNodes.forEach((node) => {
+						// Skip our own elements, which would otherwise trigger another pass
+						if (node instanceof HTMLElement && !node.hasClass(DECORATIONS_CLASS)) {
+							this.decorate(node);
+						}
+					});
+				}
+			});
+			observer.observe(container, { childList: true, subtree: true });
+			this.observers.set(container, observer);
+			this.decorate(container);
+		});
+	}
+
+	/** Re-decorates every rendered row, for example after the settings changed. */
+	refresh() {
+		this.observers.forEach((observer, container) => this.decorate(container));
+	}
+
+	/** Re-decorates the rows of the folders at `paths`, if they are rendered. */
+	refreshFolders(paths: string[]) {
+		const unique = new Set(paths);
+		this.observers.forEach((observer, container) => {
+			unique.forEach((path) => {
+				const row = container.querySelector<HTMLElement>(`.nav-folder-title[data-path="${CSS.escape(path)}"]`);
+				if (row) this.decorateRow(row);
+			});
+		});
+	}
+
+	setActiveFolder(path: string | null) {
+		const previous = this.activeFolderPath;
+		this.activeFolderPath = path;
+		this.refreshFolders([previous, path].filter((entry): entry is string => entry !== null));
+	}
+
+	/** Stops observing and removes every decoration. */
+	destroy() {
+		this.observers.forEach((observer, container) => {
+			observer.disconnect();
+			container.querySelectorAll(`.${DECORATIONS_CLASS}`).forEach((el) => el.remove());
+			container.querySelectorAll(".has-index-file, .zen-space-active").forEach((el) => {
+				el.removeClass("has-index-file", "zen-space-active");
+			});
+		});
+		this.observers.clear();
+	}
+
+	private decorate(root: HTMLElement) {
+		if (root.matches(FOLDER_ROWS)) {
+			this.decorateRow(root);
+		}
+		root.querySelectorAll<HTMLElement>(FOLDER_ROWS).forEach((row) => this.decorateRow(row));
+		this.host.onRender?.(root);
+	}
+
+	private decorateRow(row: HTMLElement) {
+		const path = row.getAttribute("data-path");
+		const folder = path ? this.app.vault.getAbstractFileByPath(path) : null;
+		if (!(folder instanceof TFolder)) return;
+
+		const { button, indexBadge, noteCount } = this.host.getDecorations();
+		const folderEl = row.closest(".nav-folder");
+		const isActive = folder.path === this.activeFolderPath;
+		folderEl?.toggleClass("has-index-file", indexBadge && this.host.hasIndexFile(folder));
+		folderEl?.toggleClass("zen-space-active", isActive);
+
+		row.querySelector(`:scope > .${DECORATIONS_CLASS}`)?.remove();
+		if (!button && !noteCount && !(indexBadge && folderEl?.hasClass("has-index-file"))) return;
+
+		const container = createDiv({ cls: DECORATIONS_CLASS });
+		if (noteCount) {
+			container.createSpan({ cls: "zen-space-note-count", text: String(this.host.countNotes(folder)) });
+		}
+		if (button) {
+			const buttonEl = container.createDiv({
+				cls: "zen-space-button" + (isActive ? " active-zen-space" : ""),
+				attr: { "aria-label": "Open in Zen Space" },
+			});
+			setIcon(buttonEl.createSpan({ cls: "zen-space-icon" }), "target");
+			buttonEl.addEventListener("click", (event) => {
+				event.stopPropagation();
+				// Resolve on click, since the row may have been renamed since it was decorated
+				const current = this.app.vault.getAbstractFileByPath(row.getAttribute("data-path") ?? "");
+				if (current instanceof TFolder) {
+					this.host.openFolder(current);
+				}
+			});
+		} else if (indexBadge && folderEl?.hasClass("has-index-file")) {
+			container.createSpan({ cls: "zen-space-index-badge", attr: { "aria-label": "Has an index file" } });
+		}
+		row.appendChild(container);
+	}
+}
@@ -0,0 +1,159 @@
+import { TAbstractFile, TFile, TFolder } from "obsidian";
+
+export interface FileFilterRules {
+	includeSubfolders: boolean;
+	includeCanvasFiles: boolean;
+	includeOtherFormats: boolean;
+	includePatterns: string[];
+	excludePatterns: string[];
+	includeExtensions: string[];
+	excludeExtensions: string[];
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Converts a glob to a regular expression tested against vault paths.
+ *
+ * - `*` and `?` stay within one path segment, `**` crosses segments.
+ * - `{a,b}` matches either alternative.
+ * - A pattern without `/` matches a file or folder name anywhere, along with
+ *   everything inside a matching folder.
+ * - A pattern starting with `/` is anchored to the vault root.
+ * - Any other pattern is matched from the vault root or from `rootPath`.
+ */
+export function globToRegExp(pattern: string, rootPath = "/"): RegExp {
+	const glob = pattern.trim();
+	const anchored = glob.startsWith("/");
+	const body = anchored ? glob.substring(1) : glob;
+
+	let source = "";
+	for (let i = 0; i < body.length; i++) {
+		const char = body[i];
+		if (body.startsWith("**/", i)) {
+			source += "(?:.*/)?";
+			i += 2;
+		} else if (body.startsWith("/**", i) && i + 3 === body.length) {
+			source += "(?:/.*)?";
+			i += 2;
+		} else if (body.startsWith("**", i)) {
+			source += ".*";
+			i += 1;
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "{") {
+			const end = body.indexOf("}", i);
+			if (end === -1) {
+				source += "\\{";
+			} else {
+				const options = body.substring(i + 1, end).split(",").map(escapeRegExp);
+				source += `(?:${options.join("|")})`;
+				i = end;
+			}
+		} else {
+			source += escapeRegExp(char);
+		}
+	}
+
+	// Matching a folder also matches everything inside it
+	const descendants = source.endsWith("(?:/.*)?") ? "" : "(?:/.*)?";
+	if (!anchored && !body.includes("/")) {
+		return new RegExp(`(?:^|/)${source}${descendants}$`, "i");
+	}
+	const root = !anchored && rootPath && rootPath !== "/" ? `(?:${escapeRegExp(rootPath)}/)?` : "";
+	return new RegExp(`^${root}${source}${descendants}$`, "i");
+}
+
+/** Splits a setting value on commas and new lines, dropping empty entries. */
+export function parseRuleList(value: string): string[] {
+	return value
+		.split(/[\n,]/)
+		.map((entry) => entry.trim())
+		.filter((entry) => entry.length > 0);
+}
+
+function normalizeExtensions(extensions: string[]): Set<string> {
+	return new Set(extensions.map((extension) => extension.trim().replace(/^\./, "").toLowerCase()).filter(Boolean));
+}
+
+/**
+ * One set of include/exclude rules shared by the Zen Space view, the index
+ * generator and the `.base` filter, so all three list the same files.
+ */
+export class FileFilter {
+	private includes: RegExp[];
+	private excludes: RegExp[];
+	private includeExtensions: Set<string>;
+	private excludeExtensions: Set<string>;
+
+	constructor(private rules: FileFilterRules, rootPath = "/") {
+		this.includes = rules.includePatterns.map((pattern) => globToRegExp(pattern, rootPath));
+		this.excludes = rules.excludePatterns.map((pattern) => globToRegExp(pattern, rootPath));
+		this.includeExtensions = normalizeExtensions(rules.includeExtensions);
+		this.excludeExtensions = normalizeExtensions(rules.excludeExtensions);
+	}
+
+	matches(file: TAbstractFile): boolean {
+		if (this.excludes.some((pattern) => pattern.test(file.path))) {
+			return false;
+		}
+
+		if (file instanceof TFolder) {
+			return this.rules.includeSubfolders;
+		}
+		if (!(file instanceof TFile)) {
+			return false;
+		}
+
+		const extension = file.extension.toLowerCase();
+		if (this.excludeExtensions.has(extension)) {
+			return false;
+		}
+
+		// An explicit extension list replaces the canvas and "other formats" toggles
+		if (this.includeExtensions.size > 0) {
+			if (!this.includeExtensions.has(extension)) return false;
+		} else if (extension === "canvas") {
+			if (!this.rules.includeCanvasFiles) return false;
+		} else if (extension !== "md" && !this.rules.includeOtherFormats) {
+			return false;
+		}
+
+		// Include patterns narrow files only; folders stay visible so they can be browsed
+		return this.includes.length === 0 || this.includes.some((pattern) => pattern.test(file.path));
+	}
+
+	/** The same rules as Bases filter expressions, to be combined with `and`. */
+	toBaseFilters(): string[] {
+		// `source` already escapes forward slashes, so it can be used as a literal as is
+		const regex = (pattern: RegExp) => `/${pattern.source}/i`;
+		const list = (values: Set<string>) => `[${Array.from(values).map((value) => JSON.stringify(value)).join(", ")}]`;
+		const filters: string[] = [];
+
+		if (this.includeExtensions.size > 0) {
+			filters.push(`${list(this.includeExtensions)}.contains(file.ext)`);
+		} else if (!this.rules.includeOtherFormats) {
+			filters.push(this.rules.includeCanvasFiles
+				? `file.ext == "md" || file.ext == "canvas"`
+				: `file.ext == "md"`);
+		} else if (!this.rules.includeCanvasFiles) {
+			filters.push(`file.ext != "canvas"`);
+		}
+
+		if (this.excludeExtensions.size > 0) {
+			filters.push(`!${list(this.excludeExtensions)}.contains(file.ext)`);
+		}
+		for (const pattern of this.excludes) {
+			filters.push(`!${regex(pattern)}.matches(file.path)`);
+		}
+		if (this.includes.length > 0) {
+			filters.push(this.includes.map((pattern) => `${regex(pattern)}.matches(file.path)`).join(" || "));
+		}
+
+		return filters;
+	}
+}
@@ -0,0 +1,113 @@
+import { App } from "obsidian";
+
+export type FocusStyle = "hide" | "dim";
+
+interface InternalPlugin {
+	enabled: boolean;
+	instance: { openGlobalSearch?: (query: string) => void };
+}
+
+const OUTSIDE_CLASS = "zen-space-focus-outside";
+const STYLE_CLASSES: Record<FocusStyle, string> = {
+	hide: "zen-space-focus-hide",
+	dim: "zen-space-focus-dim",
+};
+const EXPLORER_ROWS = ".nav-files-container .nav-folder-title[data-path], .nav-files-container .nav-file-title[data-path]";
+
+/** Whether `path` is inside one of `roots`, or a folder leading to one of them. */
+export function isInFocus(path: string, roots: string[]): boolean {
+	return roots.some((root) =>
+		root === "/" ||
+		path === root ||
+		path.startsWith(root + "/") ||
+		root.startsWith(path + "/")
+	);
+}
+
+/** A search query term limiting Obsidian's search syntax to `roots`. */
+export function focusQuery(roots: string[]): string {
+	const terms = roots.filter((root) => root !== "/").map((root) => `path:"${root}/"`);
+	return terms.length > 1 ? `(${terms.join(" OR ")})` : terms.join("");
+}
+
+function rescope(query: string, previous: string | null, next: string | null): string {
+	const rest = previous && query.startsWith(previous) ? query.substring(previous.length).trim() : query;
+	return next ? `${next} ${rest}`.trim() : rest;
+}
+
+/**
+ * Hides or dims everything in the core file explorer outside the focused
+ * folders. Optionally narrows open search and graph views to them as well.
+ */
+export class FocusMode {
+	private roots: string[] | null = null;
+	private query: string | null = null;
+
+	constructor(private app: App) {}
+
+	get active(): boolean {
+		return this.roots !== null;
+	}
+
+	apply(roots: string[], style: FocusStyle, scopeSearch: boolean) {
+		this.roots = roots;
+		document.body.toggleClass(STYLE_CLASSES.hide, style === "hide");
+		document.body.toggleClass(STYLE_CLASSES.dim, style === "dim");
+		this.decorate();
+		this.setSearchScope(scopeSearch ? focusQuery(roots) || null : null);
+	}
+
+	lift() {
+		this.roots = null;
+		Object.values(STYLE_CLASSES).forEach((cls) => document.body.removeClass(cls));
+		document.querySelectorAll(`.${OUTSIDE_CLASS}`).forEach((el) => el.removeClass(OUTSIDE_CLASS));
+		this.setSearchScope(null);
+	}
+
+	/** Marks explorer rows below `container`; call again when the explorer renders new rows. */
+	decorate(container: ParentNode = document) {
+		if (!this.roots) return;
+		const roots = this.roots;
+
+		container.querySelectorAll(EXPLORER_ROWS).forEach((titleEl) => {
+			const item = titleEl.closest(".nav-folder, .nav-file") ?? titleEl;
+			const path = titleEl.getAttribute("data-path") ?? "";
+			item.toggleClass(OUTSIDE_CLASS, !isInFocus(path, roots));
+		});
+	}
+
+	/** Opens core search limited to `roots`; false when core search is turned off. */
+	openSearch(roots: string[]): boolean {
+		const plugins = (this.app as unknown as {
+			internalPlugins?: { getPluginById(id: string): InternalPlugin | null };
+		}).internalPlugins;
+		const search = plugins?.getPluginById("global-search");
+		if (!search?.enabled || !search.instance.openGlobalSearch) return false;
+		search.instance.openGlobalSearch(`${focusQuery(roots)} `);
+		return true;
+	}
+
+	// Search and graph have no public API, so their saved view state is edited instead
+	private setSearchScope(query: string | null) {
+		const previous = this.query;
+		if (query === previous) return;
+		this.query = query;
+
+		this.app.workspace.getLeavesOfType("search").forEach((leaf) => {
+			const viewState = leaf.getViewState();
+			const state = viewState.state ?? {};
+			if (typeof state.query !== "string") return;
+			leaf.setViewState({ ...viewState, state: { ...state, query: rescope(state.query, previous, query) } });
+		});
+
+		this.app.workspace.getLeavesOfType("graph").forEach((leaf) => {
+			const viewState = leaf.getViewState();
+			const options = viewState.state?.options as Record<string, unknown> | undefined;
+			if (!options || typeof options.search !== "string") return;
+			leaf.setViewState({
+				...viewState,
+				state: { ...viewState.state, options: { ...options, search: rescope(options.search, previous, query) } },
+			});
+		});
+	}
+}
@@ -0,0 +1,60 @@
+import { App, getAllTags, getFrontMatterInfo, TFile } from "obsidian";
+
+export interface FolderStats {
+	noteCount: number;
+	wordCount: number;
+	openTasks: number;
+	lastModified: TFile | null;
+	/**
+	 * Tags (without `#`) with the number of notes using them, most used first.
+	 * A list, since objects put integer-like keys such as `2024` first.
+	 */
+	tagCounts: [string, number][];
+}
+
+/** Frontmatter keys written to the index note; removed again when stats are turned off. */
+export const FOLDER_STATS_KEYS = [
+	"note_count",
+	"word_count",
+	"open_tasks",
+	"last_modified_note",
+	"tag_counts",
+] as const;
+
+export function countWords(content: string): number {
+	const body = content.substring(getFrontMatterInfo(content).contentStart);
+	const words = body.match(/[\p{L}\p{N}][\p{L}\p{N}'’_-]*/gu);
+	return words ? words.length : 0;
+}
+
+export async function computeFolderStats(app: App, files: TFile[]): Promise<FolderStats> {
+	const stats: FolderStats = {
+		noteCount: files.length,
+		wordCount: 0,
+		openTasks: 0,
+		lastModified: null,
+		tagCounts: [],
+	};
+	const tagCounts = new Map<string, number>();
+
+	for (const file of files) {
+		if (!stats.lastModified || file.stat.mtime > stats.lastModified.stat.mtime) {
+			stats.lastModified = file;
+		}
+
+		stats.wordCount += countWords(await app.vault.cachedRead(file));
+
+		const cache = app.metadataCache.getFileCache(file);
+		if (!cache) continue;
+
+		stats.openTasks += (cache.listItems ?? []).filter((item) => item.task === " ").length;
+		// Count each tag once per note, so the numbers read as "notes tagged"
+		const tags = new Set((getAllTags(cache) ?? []).map((tag) => tag.replace(/^#/, "")));
+		tags.forEach((tag) => tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1));
+	}
+
+	stats.tagCounts = Array.from(tagCounts.entries())
+		.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
+	return stats;
+}
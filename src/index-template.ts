@@ -0,0 +1,243 @@
+import { getFrontMatterInfo } from "obsidian";
+import { getManagedRegion, MANAGED_REGION_END, MANAGED_REGION_START } from "./managed-region";
+
+export interface IndexTemplateItem {
+	name: string;
+	basename: string;
+	path: string;
+	link: string;
+	folder: string;
+	created: string;
+	modified: string;
+	/** Space separated `#tags`. */
+	tags: string;
+	/** Link text of the first image embedded in the note, or an empty string. */
+	image: string;
+}
+
+export type IndexOutputStyle = "list" | "tree" | "table" | "cards" | "embed" | "callouts";
+
+export interface IndexTemplateSection {
+	name: string;
+	path: string;
+	depth: number;
+	items: IndexTemplateItem[];
+}
+
+export interface IndexTemplateGroup {
+	name: string;
+	items: IndexTemplateItem[];
+}
+
+export interface IndexTemplateStats {
+	noteCount: number;
+	wordCount: number;
+	openTasks: number;
+	lastModified: string;
+	lastModifiedDate: string;
+	topTags: [string, number][];
+}
+
+export interface IndexTemplateContext {
+	folderName: string;
+	folderPath: string;
+	created: string;
+	updated: string;
+	items: IndexTemplateItem[];
+	/** When not empty, `{{fileList}}` lists `items` under a heading per group instead. */
+	groups: IndexTemplateGroup[];
+	sections: IndexTemplateSection[];
+	stats: IndexTemplateStats | null;
+	/** Whether `{{summary}}` renders the stats callout. */
+	showSummary: boolean;
+	style: IndexOutputStyle;
+	/** Path of the folder's base file, embedded by the "embed" style when it exists. */
+	baseFile: string | null;
+}
+
+export const DEFAULT_ITEM_FORMAT = "- {{link}}";
+
+export const DEFAULT_INDEX_TEMPLATE = `# {{folderName}}
+
+${MANAGED_REGION_START}
+{{summary}}
+
+{{fileList}}
+
+{{subfolderSections}}
+${MANAGED_REGION_END}
+`;
+
+// `|` starts an alias, `#` and `^` a heading or block reference, and `[`/`]` end the link early
+const WIKILINK_UNSAFE = /[|#^[\]]/;
+
+/**
+ * A wikilink to `linktext`, aliased to `display` when the two differ. Names
+ * that can't be written inside `[[ ]]` fall back to a Markdown link to the
+ * file's full `path`, with the unsafe characters percent-encoded.
+ */
+export function formatLink(linktext: string, path: string, display: string, embed = false): string {
+	const prefix = embed ? "!" : "";
+	if (WIKILINK_UNSAFE.test(linktext) || /[|\]]/.test(display)) {
+		const href = encodeURI(path).replace(/[()#]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+		return `${prefix}[${display.replace(/[[\]\\]/g, "\\$&")}](${href})`;
+	}
+	return `${prefix}[[${linktext === display ? linktext : `${linktext}|${display}`}]]`;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+function fillPlaceholders(text: string, values: Record<string, string>): string {
+	return text.replace(PLACEHOLDER, (match, key: string) =>
+		Object.prototype.hasOwnProperty.call(values, key) ? values[key] : match
+	);
+}
+
+export function renderItem(item: IndexTemplateItem, itemFormat: string): string {
+	return fillPlaceholders(itemFormat || DEFAULT_ITEM_FORMAT, { ...item });
+}
+
+function indent(text: string, prefix: string): string {
+	return text.split("\n").map((line) => prefix + line).join("\n");
+}
+
+function escapeTableCell(text: string): string {
+	return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function renderTable(items: IndexTemplateItem[]): string {
+	const rows = items.map((item) =>
+		`| ${[item.link, item.created, item.modified, item.tags].map(escapeTableCell).join(" | ")} |`
+	);
+	return ["| Name | Created | Modified | Tags |", "| --- | --- | --- | --- |", ...rows].join("\n");
+}
+
+function renderCard(item: IndexTemplateItem): string {
+	// Embed sizes only exist for wikilinks, so images with unsafe names are left out
+	return item.image && !WIKILINK_UNSAFE.test(item.image)
+		? `- ![[${item.image}|200]]\n  ${item.link}`
+		: `- ${item.link}`;
+}
+
+/** The items of one folder or group, in the body format of `style`. */
+function renderBlock(items: IndexTemplateItem[], itemFormat: string, style: IndexOutputStyle): string {
+	if (style === "table") return renderTable(items);
+	if (style === "cards") return items.map(renderCard).join("\n");
+	return items.map((item) => renderItem(item, itemFormat)).join("\n");
+}
+
+function renderTitled(title: string, level: number, body: string, style: IndexOutputStyle): string {
+	if (style === "callouts") {
+		return `> [!note] ${title}\n${indent(body, "> ")}`;
+	}
+	if (style === "tree") {
+		const line = `${"\t".repeat(level - 2)}- ${title}`;
+		return body ? `${line}\n${indent(body, "\t".repeat(level - 1))}` : line;
+	}
+	return `${"#".repeat(level)} ${title}\n${body}`;
+}
+
+function renderSections(sections: IndexTemplateSection[], itemFormat: string, style: IndexOutputStyle): string {
+	const hasItems = (section: IndexTemplateSection) => section.items.length > 0;
+	// The tree nests by indentation, so folders leading to listed notes keep their line
+	const isShown = (section: IndexTemplateSection) => hasItems(section) || (style === "tree" &&
+		sections.some((other) => hasItems(other) && other.path.startsWith(section.path + "/")));
+	return sections
+		.filter(isShown)
+		.map((section) =>
+			renderTitled(section.name, section.depth + 1, renderBlock(section.items, itemFormat, style), style)
+		)
+		.join(style === "tree" ? "\n" : "\n\n");
+}
+
+function renderGroups(groups: IndexTemplateGroup[], itemFormat: string, style: IndexOutputStyle): string {
+	return groups
+		.map((group) => renderTitled(group.name, 2, renderBlock(group.items, itemFormat, style), style))
+		.join(style === "tree" ? "\n" : "\n\n");
+}
+
+function renderEmbed(context: IndexTemplateContext): string {
+	if (context.baseFile) {
+		return formatLink(context.baseFile, context.baseFile, context.baseFile, true);
+	}
+	const source = context.folderPath === "/" ? "" : context.folderPath;
+	return ["```dataview", "TABLE created, updated", `FROM ${JSON.stringify(source)}`, "SORT file.name ASC", "```"].join("\n");
+}
+
+function renderSummary(stats: IndexTemplateStats): string {
+	const lines = [
+		"> [!info] Folder summary",
+		`> ${stats.noteCount} notes · ${stats.wordCount.toLocaleString()} words · ${stats.openTasks} open tasks`,
+	];
+	if (stats.lastModified) {
+		lines.push(`> Last modified: ${stats.lastModified} (${stats.lastModifiedDate})`);
+	}
+	if (stats.topTags.length > 0) {
+		lines.push(`> Top tags: ${stats.topTags.map(([tag, count]) => `#${tag} (${count})`).join(", ")}`);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * Templates without markers are treated as fully generated: everything
+ * after their frontmatter becomes the managed region.
+ */
+export function ensureManagedRegion(template: string): string {
+	if (getManagedRegion(template) !== null) {
+		return template;
+	}
+	const { contentStart } = getFrontMatterInfo(template);
+	const head = template.substring(0, contentStart);
+	const body = template.substring(contentStart).trim();
+	return `${head}${MANAGED_REGION_START}\n${body}\n${MANAGED_REGION_END}\n`;
+}
+
+export function renderIndexTemplate(
+	template: string,
+	context: IndexTemplateContext,
+	itemFormat: string
+): string {
+	const { style } = context;
+	let fileList: string;
+	let subfolderSections: string;
+	if (style === "embed") {
+		// A live query already covers the subfolders
+		fileList = renderEmbed(context);
+		subfolderSections = "";
+	} else {
+		fileList = context.groups.length > 0
+			? renderGroups(context.groups, itemFormat, style)
+			: renderBlock(context.items, itemFormat, style);
+		subfolderSections = renderSections(context.sections, itemFormat, style);
+	}
+	const fileCount = context.items.length +
+		context.sections.reduce((count, section) => count + section.items.length, 0);
+
+	const rendered = fillPlaceholders(ensureManagedRegion(template), {
+		folderName: context.folderName,
+		folderPath: context.folderPath,
+		created: context.created,
+		updated: context.updated,
+		fileList,
+		subfolderSections,
+		fileCount: String(fileCount),
+		summary: context.stats && context.showSummary ? renderSummary(context.stats) : "",
+		noteCount: context.stats ? String(context.stats.noteCount) : "",
+		wordCount: context.stats ? String(context.stats.wordCount) : "",
+		openTasks: context.stats ? String(context.stats.openTasks) : "",
+		lastModified: context.stats?.lastModified ?? "",
+	});
+
+	// Collapse the blank lines left behind by empty placeholders
+	return rendered
+		.replace(/\n{3,}/g, "\n\n")
+		.split(`${MANAGED_REGION_START}\n\n`).join(`${MANAGED_REGION_START}\n`);
+}
+
+export function renderManagedRegion(
+	template: string,
+	context: IndexTemplateContext,
+	itemFormat: string
+): string {
+	return getManagedRegion(renderIndexTemplate(template, context, itemFormat)) ?? "";
+}
@@ -0,0 +1,107 @@
+import { App, Notice, TFolder } from "obsidian";
+
+// Batches smaller than this finish too quickly to be worth a notice
+const PROGRESS_NOTICE_THRESHOLD = 10;
+
+/**
+ * Collects folders whose index files are out of date and regenerates each
+ * of them once after vault activity has settled.
+ */
+export class IndexUpdateQueue {
+	private dirtyPaths: Set<string> = new Set();
+	private timer: number | null = null;
+	private running: Promise<void> | null = null;
+
+	constructor(
+		private app: App,
+		private processFolder: (folder: TFolder) => Promise<void>,
+		private delay = 500
+	) {}
+
+	enqueue(folder: TFolder, includeAncestors = false) {
+		this.enqueuePath(folder.path, includeAncestors);
+	}
+
+	enqueuePath(folderPath: string, includeAncestors = false) {
+		this.dirtyPaths.add(folderPath);
+
+		if (includeAncestors) {
+			let path = folderPath;
+			while (path.includes("/") && path !== "/") {
+				path = path.substring(0, path.lastIndexOf("/"));
+				this.dirtyPaths.add(path);
+			}
+		}
+
+		this.schedule();
+	}
+
+	async flush(): Promise<void> {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+
+		while (this.running) {
+			await this.running;
+		}
+		if (this.dirtyPaths.size === 0) {
+			return;
+		}
+
+		this.running = this.processBatch();
+		try {
+			await this.running;
+		} finally {
+			this.running = null;
+		}
+
+		// Writes made during the batch may have queued more folders
+		if (this.dirtyPaths.size > 0) {
+			this.schedule();
+		}
+	}
+
+	clear() {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+			this.timer = null;
+		}
+		this.dirtyPaths.clear();
+	}
+
+	private schedule() {
+		if (this.timer !== null) {
+			window.clearTimeout(this.timer);
+		}
+		this.timer = window.setTimeout(() => {
+			this.timer = null;
+			this.flush();
+		}, this.delay);
+	}
+
+	private async processBatch() {
+		const folders = Array.from(this.dirtyPaths)
+			.map((path) => this.app.vault.getAbstractFileByPath(path))
+			.filter((folder): folder is TFolder => folder instanceof TFolder);
+		this.dirtyPaths.clear();
+
+		const total = folders.length;
+		const notice = total >= PROGRESS_NOTICE_THRESHOLD
+			? new Notice(`Updating index files (0/${total})`, 0)
+			: null;
+
+		let done = 0;
+		for (const folder of folders) {
+			try {
+				await this.processFolder(folder);
+			} catch (error) {
+				console.error(`Error updating index for ${folder.path}:`, error);
+			}
+			done++;
+			notice?.setMessage(`Updating index files (${done}/${total})`);
+		}
+
+		notice?.hide();
+	}
+}
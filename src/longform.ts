@@ -0,0 +1,80 @@
+import { normalizePath } from "obsidian";
+
+/** One entry of a Longform `scenes` list; `indent` is how deep it is nested. */
+export interface LongformScene {
+	title: string;
+	indent: number;
+}
+
+/** Reads Longform's `scenes`, where a nested array indents its scenes under the scene before it. */
+export function flattenScenes(scenes: unknown, indent = 0): LongformScene[] {
+	if (!Array.isArray(scenes)) return [];
+	return scenes.flatMap((entry): LongformScene[] => {
+		if (Array.isArray(entry)) return flattenScenes(entry, indent + 1);
+		if (typeof entry === "string" || typeof entry === "number") return [{ title: String(entry), indent }];
+		return [];
+	});
+}
+
+/** The inverse of `flattenScenes`. */
+export function nestScenes(scenes: LongformScene[]): unknown[] {
+	const root: unknown[] = [];
+	const stack: unknown[][] = [root];
+	for (const scene of scenes) {
+		// A scene can be nested at most one level deeper than the scene before it
+		const deepest = stack[stack.length - 1].length > 0 ? stack.length : stack.length - 1;
+		const indent = Math.max(0, Math.min(scene.indent, deepest));
+		if (indent === stack.length) {
+			const children: unknown[] = [];
+			stack[stack.length - 1].push(children);
+			stack.push(children);
+		} else {
+			stack.length = indent + 1;
+		}
+		stack[indent].push(scene.title);
+	}
+	return root;
+}
+
+/**
+ * Keeps the order and nesting of `existing`, dropping scenes that are no
+ * longer generated. New scenes are placed after the scene they follow in
+ * `generated`.
+ */
+export function mergeScenes(existing: LongformScene[], generated: LongformScene[]): LongformScene[] {
+	const available = new Set(generated.map((scene) => scene.title));
+	const merged = existing.filter((scene) => available.has(scene.title));
+	const listed = new Set(merged.map((scene) => scene.title));
+
+	let previous: string | null = null;
+	for (const scene of generated) {
+		if (!listed.has(scene.title)) {
+			const at = previous === null ? 0 : merged.findIndex((entry) => entry.title === previous) + 1;
+			merged.splice(at, 0, { ...scene });
+			listed.add(scene.title);
+		}
+		previous = scene.title;
+	}
+	return merged;
+}
+
+/** Longform scene folders are relative to the folder of the project's index note. */
+export function resolveSceneFolder(indexFolderPath: string, sceneFolder: string): string {
+	return normalizePath(`${indexFolderPath}/${sceneFolder}`);
+}
+
+/** The `sceneFolder` value that points from the index note's folder to `folderPath`. */
+export function toSceneFolder(indexFolderPath: string, folderPath: string): string {
+	const base = normalizePath(indexFolderPath);
+	const target = normalizePath(folderPath);
+	if (target === base) return "/";
+	if (base === "/") return `/${target}`;
+	return target.startsWith(`${base}/`) ? `/${target.substring(base.length + 1)}` : `/${target}`;
+}
+
+export interface LongformCheckResult {
+	/** Scenes in the list without a note in the scene folder. */
+	missing: string[];
+	/** Notes in the scene folder that are not in the list. */
+	unlisted: string[];
+}
@@ -0,0 +1,71 @@
+import { getFrontMatterInfo } from "obsidian";
+
+export const MANAGED_REGION_START = "<!-- zen-space:start -->";
+export const MANAGED_REGION_END = "<!-- zen-space:end -->";
+
+// Matches lines the pre-marker index generator used to write: headings, wikilink bullets and blanks
+const LEGACY_GENERATED_LINE = /^(#{1,6} .*|- \[\[.*\]\])?\s*$/;
+const LEGACY_LIST_LINE = /^- \[\[.*\]\]\s*$/;
+
+export function wrapManagedRegion(body: string): string {
+	const trimmed = body.trim();
+	return trimmed
+		? `${MANAGED_REGION_START}\n${trimmed}\n${MANAGED_REGION_END}`
+		: `${MANAGED_REGION_START}\n${MANAGED_REGION_END}`;
+}
+
+export function hasManagedRegion(content: string): boolean {
+	const start = content.indexOf(MANAGED_REGION_START);
+	return start !== -1 && content.indexOf(MANAGED_REGION_END, start) !== -1;
+}
+
+export function getManagedRegion(content: string): string | null {
+	const start = content.indexOf(MANAGED_REGION_START);
+	if (start === -1) return null;
+	const end = content.indexOf(MANAGED_REGION_END, start);
+	if (end === -1) return null;
+	return content.substring(start + MANAGED_REGION_START.length, end).trim();
+}
+
+export function replaceManagedRegion(content: string, body: string): string {
+	const start = content.indexOf(MANAGED_REGION_START);
+	const end = content.indexOf(MANAGED_REGION_END, start);
+	if (start === -1 || end === -1) {
+		return content;
+	}
+	return (
+		content.substring(0, start) +
+		wrapManagedRegion(body) +
+		content.substring(end + MANAGED_REGION_END.length)
+	);
+}
+
+/**
+ * Adds a managed region to an index note written before markers existed.
+ * Only the file list directly under the folder heading is taken over; any
+ * other text is kept. Without a recognisable heading the region is appended.
+ */
+export function migrateLegacyIndex(content: string, folderName: string, body: string): string {
+	const { contentStart } = getFrontMatterInfo(content);
+	const head = content.substring(0, contentStart);
+	const lines = content.substring(contentStart).split("\n");
+
+	const headingIndex = lines.findIndex((line) => line.trim() === `# ${folderName}`);
+	if (headingIndex === -1) {
+		const separator = content.endsWith("\n") ? "\n" : "\n\n";
+		return `${content}${separator}${wrapManagedRegion(body)}\n`;
+	}
+
+	let lastListIndex = -1;
+	for (let i = headingIndex + 1; i < lines.length; i++) {
+		if (!LEGACY_GENERATED_LINE.test(lines[i])) break;
+		if (LEGACY_LIST_LINE.test(lines[i])) lastListIndex = i;
+	}
+
+	const before = lines.slice(0, headingIndex + 1);
+	const after = lastListIndex === -1
+		? lines.slice(headingIndex + 1)
+		: lines.slice(lastListIndex + 1);
+
+	return head + [...before, wrapManagedRegion(body), ...after].join("\n");
+}
@@ -0,0 +1,83 @@
+import { App, TFile } from "obsidian";
+
+export interface PropertyGroup<T> {
+	name: string;
+	value: unknown;
+	items: T[];
+}
+
+export function getPropertyValue(app: App, file: TFile, key: string): unknown {
+	const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+	if (!frontmatter || !key) return undefined;
+	if (key in frontmatter) return frontmatter[key];
+
+	const lowerKey = key.toLowerCase();
+	const actualKey = Object.keys(frontmatter).find((candidate) => candidate.toLowerCase() === lowerKey);
+	return actualKey === undefined ? undefined : frontmatter[actualKey];
+}
+
+export function isEmptyValue(value: unknown): boolean {
+	return value === undefined || value === null || value === "" ||
+		(Array.isArray(value) && value.length === 0);
+}
+
+export function formatPropertyValue(value: unknown): string {
+	if (isEmptyValue(value)) return "";
+	if (Array.isArray(value)) return value.map((entry) => formatPropertyValue(entry)).join(", ");
+	return String(value);
+}
+
+/**
+ * Numbers and booleans compare by value, everything else as text with
+ * numeric runs ordered naturally, which keeps ISO dates in order too.
+ */
+export function comparePropertyValues(a: unknown, b: unknown): number {
+	if (typeof a === "number" && typeof b === "number") return a - b;
+	if (typeof a === "boolean" && typeof b === "boolean") return Number(a) - Number(b);
+	return formatPropertyValue(a).localeCompare(formatPropertyValue(b), undefined, {
+		numeric: true,
+		sensitivity: "base",
+	});
+}
+
+/**
+ * Groups keep the incoming order of their items. Groups are ordered by value,
+ * with the group of files lacking the property last.
+ */
+export function groupByProperty<T>(
+	items: T[],
+	key: string,
+	valueOf: (item: T) => unknown
+): PropertyGroup<T>[] {
+	const groups = new Map<string, PropertyGroup<T>>();
+	for (const item of items) {
+		const value = valueOf(item);
+		const name = formatPropertyValue(value) || `No ${key}`;
+		const group = groups.get(name) ?? { name, value: isEmptyValue(value) ? undefined : value, items: [] };
+		group.items.push(item);
+		groups.set(name, group);
+	}
+
+	return Array.from(groups.values()).sort((a, b) => {
+		const aEmpty = a.value === undefined;
+		const bEmpty = b.value === undefined;
+		if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+		return comparePropertyValues(a.value, b.value);
+	});
+}
+
+/** Property keys used in the frontmatter of `files`, most common first. */
+export function collectPropertyKeys(app: App, files: TFile[]): string[] {
+	const counts = new Map<string, number>();
+	for (const file of files) {
+		const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) continue;
+		for (const key of Object.keys(frontmatter)) {
+			if (key === "position") continue;
+			counts.set(key, (counts.get(key) ?? 0) + 1);
+		}
+	}
+	return Array.from(counts.entries())
+		.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+		.map(([key]) => key);
+}
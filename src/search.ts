@@ -0,0 +1,207 @@
+import {
+	App,
+	getAllTags,
+	prepareFuzzySearch,
+	prepareSimpleSearch,
+	SearchMatches,
+	TFile,
+} from "obsidian";
+
+export interface SearchQuery {
+	terms: string[];
+	tags: string[];
+	extensions: string[];
+	paths: string[];
+	modified: { after: boolean; time: number }[];
+	properties: { key: string; value: string }[];
+}
+
+export interface SearchResult {
+	file: TFile;
+	nameMatches: SearchMatches | null;
+	snippet: { text: string; matches: SearchMatches } | null;
+}
+
+const SNIPPET_RADIUS = 60;
+const CONTENT_EXTENSIONS = ["md", "canvas"];
+const DURATION_UNITS: Record<string, number> = {
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+	m: 30 * 24 * 60 * 60 * 1000,
+	y: 365 * 24 * 60 * 60 * 1000,
+};
+
+function tokenize(input: string): string[] {
+	const tokens: string[] = [];
+	const pattern = /(\S+?:)?"([^"]*)"|\S+/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(input)) !== null) {
+		tokens.push(match[2] !== undefined ? `${match[1] ?? ""}${match[2]}` : match[0]);
+	}
+	return tokens;
+}
+
+/** Accepts `>7d`, `<2w` or an absolute date such as `>2024-01-31`. */
+function parseModified(value: string, now: number): { after: boolean; time: number } | null {
+	const match = /^([<>])?(.+)$/.exec(value);
+	if (!match) return null;
+	const after = match[1] !== "<";
+
+	const relative = /^(\d+)([hdwmy])$/.exec(match[2]);
+	if (relative) {
+		return { after, time: now - parseInt(relative[1], 10) * DURATION_UNITS[relative[2]] };
+	}
+
+	const time = Date.parse(match[2]);
+	return isNaN(time) ? null : { after, time };
+}
+
+export function parseSearchQuery(input: string, now = Date.now()): SearchQuery {
+	const query: SearchQuery = {
+		terms: [],
+		tags: [],
+		extensions: [],
+		paths: [],
+		modified: [],
+		properties: [],
+	};
+
+	for (const token of tokenize(input.trim())) {
+		const separator = token.indexOf(":");
+		const key = separator > 0 ? token.substring(0, separator).toLowerCase() : "";
+		const value = separator > 0 ? token.substring(separator + 1) : token;
+
+		if (!key || !value) {
+			query.terms.push(token.toLowerCase());
+		} else if (key === "tag") {
+			query.tags.push(value.replace(/^#/, "").toLowerCase());
+		} else if (key === "ext") {
+			query.extensions.push(value.replace(/^\./, "").toLowerCase());
+		} else if (key === "path") {
+			query.paths.push(value.toLowerCase());
+		} else if (key === "modified") {
+			const modified = parseModified(value, now);
+			if (modified) query.modified.push(modified);
+		} else {
+			query.properties.push({ key, value: value.toLowerCase() });
+		}
+	}
+
+	return query;
+}
+
+export function isEmptyQuery(query: SearchQuery): boolean {
+	return query.terms.length === 0 &&
+		query.tags.length === 0 &&
+		query.extensions.length === 0 &&
+		query.paths.length === 0 &&
+		query.modified.length === 0 &&
+		query.properties.length === 0;
+}
+
+function matchesFilters(app: App, file: TFile, query: SearchQuery): boolean {
+	if (query.extensions.length > 0 && !query.extensions.includes(file.extension.toLowerCase())) {
+		return false;
+	}
+
+	const path = file.path.toLowerCase();
+	if (!query.paths.every((fragment) => path.includes(fragment))) {
+		return false;
+	}
+
+	if (!query.modified.every(({ after, time }) => after ? file.stat.mtime >= time : file.stat.mtime <= time)) {
+		return false;
+	}
+
+	if (query.tags.length === 0 && query.properties.length === 0) {
+		return true;
+	}
+
+	const cache = app.metadataCache.getFileCache(file);
+	if (!cache) return false;
+
+	if (query.tags.length > 0) {
+		const tags = (getAllTags(cache) ?? []).map((tag) => tag.replace(/^#/, "").toLowerCase());
+		// A tag query also matches nested tags, so `tag:project` finds `#project/alpha`
+		const hasTags = query.tags.every((wanted) =>
+			tags.some((tag) => tag === wanted || tag.startsWith(wanted + "/"))
+		);
+		if (!hasTags) return false;
+	}
+
+	const frontmatter = cache.frontmatter ?? {};
+	return query.properties.every(({ key, value }) => {
+		const actualKey = Object.keys(frontmatter).find((candidate) => candidate.toLowerCase() === key);
+		if (actualKey === undefined) return false;
+		const actual = frontmatter[actualKey];
+		const values: unknown[] = Array.isArray(actual) ? actual : [actual];
+		return values.some((entry) => String(entry).toLowerCase().includes(value));
+	});
+}
+
+function buildSnippet(content: string, index: number, length: number): { text: string; matches: SearchMatches } {
+	const start = Math.max(0, index - SNIPPET_RADIUS);
+	const end = Math.min(content.length, index + length + SNIPPET_RADIUS);
+	const prefix = start > 0 ? "…" : "";
+	const suffix = end < content.length ? "…" : "";
+	const text = prefix + content.substring(start, end).replace(/\s+/g, " ") + suffix;
+
+	// Whitespace collapsing shifts offsets, so locate the term again in the final text
+	const term = content.substring(index, index + length).replace(/\s+/g, " ");
+	const matchStart = text.toLowerCase().indexOf(term.toLowerCase());
+	return {
+		text,
+		matches: matchStart === -1 ? [] : [[matchStart, matchStart + term.length]],
+	};
+}
+
+/**
+ * Every free-text term must match either the file name (fuzzily) or the file
+ * content; operators narrow the candidates before any file is read.
+ */
+export async function searchFiles(
+	app: App,
+	files: TFile[],
+	query: SearchQuery,
+	limit = 200
+): Promise<SearchResult[]> {
+	const results: SearchResult[] = [];
+	const fullTerm = query.terms.join(" ");
+	const fuzzyName = fullTerm ? prepareFuzzySearch(fullTerm) : null;
+	const termMatchers = query.terms.map((term) => prepareSimpleSearch(term));
+
+	for (const file of files) {
+		if (results.length >= limit) break;
+		if (!matchesFilters(app, file, query)) continue;
+
+		if (query.terms.length === 0) {
+			results.push({ file, nameMatches: null, snippet: null });
+			continue;
+		}
+
+		const nameMatch = fuzzyName ? fuzzyName(file.basename) : null;
+		if (nameMatch) {
+			results.push({ file, nameMatches: nameMatch.matches, snippet: null });
+			continue;
+		}
+
+		if (!CONTENT_EXTENSIONS.includes(file.extension)) continue;
+
+		const content = await app.vault.cachedRead(file);
+		const haystack = `${file.basename}\n${content}`;
+		if (!termMatchers.every((matcher) => matcher(haystack))) continue;
+
+		const lowerContent = content.toLowerCase();
+		const firstTerm = query.terms.find((term) => lowerContent.includes(term));
+		results.push({
+			file,
+			nameMatches: null,
+			snippet: firstTerm
+				? buildSnippet(content, lowerContent.indexOf(firstTerm), firstTerm.length)
+				: null,
+		});
+	}
+
+	return results;
+}